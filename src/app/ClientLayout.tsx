@@ -2,14 +2,14 @@
 
 import { CacheProvider, css, Global } from '@emotion/react';
 import { CssBaseline, ThemeProvider } from '@mui/material';
-import { emotionCache, getTheme } from '@/theme'; //getTheme only needed for only lightmode
-import { ReactNode/*, useState */ } from 'react';//useState for light/dark mode
-//import { useCachedTheme } from '@/theme/utils/useCachedTheme.ts'; //Needed for light/dark mode
+import { emotionCache, getTheme } from '@/theme';
+import { ReactNode } from 'react';
+import ColorModeToggle from '@/components/colorMode/ColorModeToggle';
+
+// Both color schemes live in one theme; the mode is read and stored by ThemeProvider
+const theme = getTheme();
 
 export default function ClientLayout({ children }: { children: ReactNode }) {
-  //const [mode, setMode] = useState<'light' | 'dark'>('light');
-  //const theme = useCachedTheme(mode); //For light and dark mode
-  const theme = getTheme('light');
   return (
     <CacheProvider value={emotionCache} >
       <ThemeProvider theme={theme} >
@@ -17,7 +17,7 @@ export default function ClientLayout({ children }: { children: ReactNode }) {
         <Global
           styles={ theme => css`
             body {
-              background-color: ${theme.palette.background.default};
+              background-color: ${(theme.vars || theme).palette.background.default};
               font-size: 1.6rem;
             }
             html {
@@ -25,7 +25,7 @@ export default function ClientLayout({ children }: { children: ReactNode }) {
             }
           `}
         />
-          {/* Optional: Add a toggle button or context provider here */}
+          <ColorModeToggle />
           {children}
       </ThemeProvider>
     </CacheProvider>
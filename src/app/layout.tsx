@@ -1,5 +1,6 @@
 import ClientLayout from './ClientLayout.tsx';
 export { default as metadata } from './metadata';
+import InitColorSchemeScript from '@mui/material/InitColorSchemeScript';
 import { ReactNode } from 'react';
 
 export const viewport = {
@@ -8,9 +9,11 @@ export const viewport = {
 };
 
 export default function RootLayout({ children }: { children: ReactNode }) {
+  // the script sets the stored (or system) color scheme class on <html> before first paint
   return (
-    <html lang="en-US">
+    <html lang="en-US" suppressHydrationWarning>
       <body>
+        <InitColorSchemeScript attribute="class" />
         <ClientLayout>{children}</ClientLayout>
       </body>
     </html>
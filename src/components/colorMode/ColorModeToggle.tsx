@@ -0,0 +1,33 @@
+import { FormControlLabel, Paper, Switch, Typography } from '@mui/material';
+import { useColorScheme } from '@mui/material/styles';
+
+/**
+ * ColorModeToggle — light/dark switch in the bottom-right corner:
+ * - until the visitor picks a mode, the theme follows `prefers-color-scheme`
+ * - the choice is stored in localStorage by ThemeProvider and restored before first paint by
+ *   InitColorSchemeScript (see app/layout.tsx)
+ */
+export default function ColorModeToggle() {
+  const { colorScheme, setMode } = useColorScheme();
+  // the scheme is only known on the client, render nothing until then to match the server HTML
+  if (!colorScheme) return null;
+
+  return (
+    <Paper
+      elevation={2}
+      sx={{ bottom: 16, pl: 1.5, pr: 0.5, position: "fixed", right: 16, zIndex: 2 }}
+    >
+      <FormControlLabel
+        control={
+          <Switch
+            checked={colorScheme === "dark"}
+            onChange={(_, dark) => setMode(dark ? "dark" : "light")}
+            size="small"
+          />
+        }
+        label={<Typography variant="body2">Dark mode</Typography>}
+        labelPlacement="start"
+      />
+    </Paper>
+  );
+}
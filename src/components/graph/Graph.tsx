@@ -1,149 +1,364 @@
-import * as d3 from 'd3-force';
 import { Box } from '@mui/material';
-import customBreakpoints from '../../theme/base/breakpoints.ts';
-import { type SimulationNodeDatum } from "d3-force";
-import { useEffect, useRef, useState } from 'react';
- 
-/*
-Importing with `import * as d3 from "d3-force"` only brings in the module’s
-runtime exports (functions, constants, etc.). It does not include TypeScript
-types such as `SimulationNodeDatum`, because types exist only at compile time
-and are erased from the generated JavaScript.
-
-To use D3’s type definitions, you must import them explicitly with a type-only
-import, for example:
-
-  import { type SimulationNodeDatum } from "d3-force";
-
-This ensures TypeScript can check your code against D3’s type contracts,
-while keeping the compiled output free of type-related imports.
-
-Note:
-interface SimulationNodeDatum {
-  index?: number;       // assigned by simulation
-  x?: number;           // current x-position
-  y?: number;           // current y-position
-  vx?: number;          // current x-velocity
-  vy?: number;          // current y-velocity
-  fx?: number | null;   // fixed x-position (if pinned)
-  fy?: number | null;   // fixed y-position (if pinned)
-}
-*/
-type Node = SimulationNodeDatum & {
-  id: number; // Personal identifier separate from index
-  radius?: number;
-  color?: string;
+import { useColorScheme, useTheme } from '@mui/material/styles';
+import { type GraphConfig, mergeGraphConfigs, resolveGraphConfig } from './graphConfig.ts';
+import { GraphEngine, type ReducedMotionBehavior } from './GraphEngine.ts';
+import {
+  forwardRef,
+  useCallback,
+  useEffect,
+  useId,
+  useImperativeHandle,
+  useMemo,
+  useRef,
+  useState,
+  useSyncExternalStore
+} from 'react';
+import { GraphWorkerClient, supportsOffscreenCanvas } from './GraphWorkerClient.ts';
+import {
+  captureSequence,
+  GraphRecorder,
+  type Recording,
+  type RecordingOptions,
+  type SequenceOptions
+} from './recorder.ts';
+import { type CaptureOptions } from './capture.ts';
+import { type GraphSnapshot } from './snapshot.ts';
+import { type GraphData } from './graphData.ts';
+import { downloadBlob } from './download.ts';
+import { type RendererKind } from './renderer.ts';
+import { type GraphStats } from './stats.ts';
+import { type NodeCounts } from './quality.ts';
+import { type NodeCountTier } from './nodes.ts';
+import GraphHud from './GraphHud.tsx';
+import GraphControls from './GraphControls.tsx';
+import GraphTooltip from './GraphTooltip.tsx';
+import { type PickedNode } from './picking.ts';
+import { loadNodeCounts, saveNodeCount } from './qualityStorage.ts';
+import { type GraphPresetName, presetConfig } from './presets/registry.ts';
+import { type GraphPreset } from './presets/presetSchema.ts';
+import { LOOK_TRANSITION_MS } from './transition.ts';
+import { themeGraphConfig } from './themeConfig.ts';
+
+export type GraphProps = {
+  /**
+   * A named look ("constellation", "plexus", ...) or a custom GraphPreset. Changing it at runtime
+   * cross-fades to the new look; `config` fields override the preset's.
+   */
+  preset?: GraphPresetName | GraphPreset;
+  /** Tuning overrides over the preset; the rest use DEFAULT_GRAPH_CONFIG. Changes apply live. */
+  config?: Partial<GraphConfig>;
+  /**
+   * A node-link dataset to show instead of the generated ambient nodes: its links are the edges
+   * and d3 link, charge and center forces lay it out. Pass a stable object; a new one restarts
+   * the layout. `config.spotlight` brings back the pointer proximity fade.
+   */
+  data?: GraphData;
+  reducedMotion?: ReducedMotionBehavior;
+  /** "canvas" (default) or "svg" for live vector output; changing it remounts the graph */
+  renderer?: RendererKind;
+  /**
+   * Run the simulation and drawing in a Web Worker on an OffscreenCanvas, keeping the animation
+   * smooth while the main thread is busy. Falls back to the main thread where OffscreenCanvas is
+   * unavailable, and only applies to the canvas renderer. Read once on mount.
+   */
+  offscreen?: boolean;
+  /**
+   * Show the performance overlay (FPS, timings, counts, frame-time chart). Alt+Shift+H toggles
+   * it as well; a change of the prop wins over the shortcut.
+   */
+  hud?: boolean;
+  /** Called with the frame loop's GraphStats a few times per second, e.g. to log real devices */
+  onStats?: (stats: GraphStats) => void;
+  /**
+   * Show the tuning drawer (GraphControls) that edits the config live, also enabled by a
+   * `?graphControls` query string. Its edits are applied on top of `config`.
+   */
+  controls?: boolean;
+  /** Show the label and data of the hovered node in a tooltip (default true) */
+  tooltips?: boolean;
+  /** Called when the node under the pointer changes, with null when it leaves every node */
+  onNodeHover?: (node: PickedNode | null) => void;
+  /**
+   * Called when a node is clicked: the first click selects and pins it (`selected`), the next one
+   * releases it. A click on empty space releases the selection and reports null.
+   */
+  onNodeClick?: (node: PickedNode | null) => void;
+  /**
+   * Purely decorative background: hidden from assistive technology (`aria-hidden`) and left out of
+   * the tab order. Otherwise the graph is focusable and driven by the keyboard as well.
+   */
+  decorative?: boolean;
+  /** What the graph shows, read by screen readers; defaults to a summary of `data` */
+  ariaLabel?: string;
+};
+
+/** Imperative API, reachable through a ref on Graph */
+export type GraphHandle = {
+  /** Seed of the current layout (null before mount). Pass it as `config.seed` to recreate it. */
+  getSeed: () => number | null;
+  /** Nodes, config and seed as versioned JSON, e.g. to save a scene or survive a route change */
+  getSnapshot: () => Promise<GraphSnapshot>;
+  /**
+   * Restore a snapshot (object or JSON string); throws GraphSnapshotError if it is invalid. Its
+   * config stays active until the theme, preset, `config` or drawer change it by value.
+   */
+  loadSnapshot: (snapshot: GraphSnapshot | string) => void;
+  /** The current frame as a standalone SVG document (background included) */
+  toSvg: () => Promise<string>;
+  /** Download the current frame as an .svg file, e.g. for Figma or print */
+  downloadSvg: (filename?: string) => Promise<void>;
+  /** PNG of the current frame at a chosen pixel size, independent of the viewport */
+  captureFrame: (options?: CaptureOptions) => Promise<Blob>;
+  /** `frameCount` PNGs rendered offline at a fixed timestep of 1/fps (the animation advances) */
+  captureSequence: (frameCount: number, options?: SequenceOptions) => Promise<Blob[]>;
+  /**
+   * Start recording; every frame advances the simulation by exactly 1/fps and is stamped at
+   * index / fps, so slow frames never make the video stutter
+   */
+  startRecording: (options?: RecordingOptions) => void;
+  /** Stop the recording and resolve with the WebM file, or its PNG frames without WebCodecs */
+  stopRecording: () => Promise<Recording>;
+};
+
+// shared by the <canvas> and the <svg> surface
+const surfaceStyle = {
+  display: "block",
+  height: "100%",
+  touchAction: "none", // extra safety for some browsers
+  width: "100%"
+} as const;
+
+// hidden on screen, still read by screen readers
+const visuallyHidden = {
+  border: 0,
+  clip: "rect(0 0 0 0)",
+  height: "1px",
+  margin: "-1px",
+  overflow: "hidden",
+  padding: 0,
+  position: "absolute",
+  whiteSpace: "nowrap",
+  width: "1px"
+} as const;
+
+const KEYBOARD_HELP =
+  "Arrow keys move the pointer, with Shift in larger steps. Enter pins or releases the node " +
+  "under it, Escape releases.";
+
+// spoken name of a node: its label, else its id
+const nodeName = (node: PickedNode) => node.label ?? `Node ${node.dataId ?? node.id}`;
+
+// the query string only exists in the browser; the server render never shows the controls
+const subscribeToNothing = () => () => {};
+const readControlsQuery = () => new URLSearchParams(window.location.search).has("graphControls");
+
+type Engine = GraphEngine | GraphWorkerClient;
+type EngineOptions = {
+  config?: Partial<GraphConfig>;
+  reducedMotion: ReducedMotionBehavior;
+  data: GraphData | null;
+  nodeCounts: NodeCounts;
+  onNodeCountSettled: (tier: NodeCountTier, nodeCount: number) => void;
+  onNodeHover: (node: PickedNode | null) => void;
+  onNodeClick: (node: PickedNode | null) => void;
 };
 
-const NODE_RADIUS = 4;
-const LINK_DISTANCE = 100; // px threshold for drawing an edge
-const INITIAL_WIDTH = 900;
-const INITIAL_HEIGHT = 600;
-
-// Separate mouse effect radii for nodes and edges
-const MOUSE_EFFECT_RADIUS_NODES = 700; // nodes remain visible farther
-const MOUSE_EFFECT_RADIUS_EDGES = 375; // edges disappear sooner than nodes
-
-// Choose falloff: "linear" or "quadratic"
-const MOUSE_FALLOFF: "linear" | "quadratic" = "linear";
-
-/** Smoothing for touch dragging (0 = immediate, 1 = no movement) */
-const DRAG_LERP = .18;
-
-/** Utility: convert #rrggbb to {r,g,b} */
-function hexToRgb(hex: string) {
-  if (!hex) return { r: 200, g: 200, b: 200 };
-  const h = hex.replace("#", "");
-  if (h.length === 3) {
-    const r = parseInt(h[0] + h[0], 16);
-    const g = parseInt(h[1] + h[1], 16);
-    const b = parseInt(h[2] + h[2], 16);
-    return { r, g, b };
+// only a canvas can be transferred to a worker; everything else runs on the main thread
+function mountEngine(
+  surface: HTMLCanvasElement | SVGSVGElement,
+  options: EngineOptions,
+  offscreen: boolean
+): Engine {
+  if (offscreen && surface instanceof HTMLCanvasElement && supportsOffscreenCanvas()) {
+    const client = new GraphWorkerClient(options);
+    client.mount(surface);
+    return client;
   }
-  const r = parseInt(h.slice(0, 2), 16);
-  const g = parseInt(h.slice(2, 4), 16);
-  const b = parseInt(h.slice(4, 6), 16);
-  return { r, g, b };
+  const engine = new GraphEngine(options);
+  engine.mount(surface);
+  return engine;
 }
 
 /**
- * CanvasForceGraph (responsive) with:
- * - global pointer tracking so the mouse node follows even when pointer is over other DOM elements
- * - separate proximity radii for nodes and edges (edges disappear before nodes)
- * - improved mobile dragging using pointer capture, touch-action none, rAF batching and smoothing (lerp)
+ * CanvasForceGraph (responsive) — React wrapper around GraphEngine:
+ * - mounts one engine on the canvas for the lifetime of the component
+ * - forwards container resizes and prop changes to it, the simulation is never recreated
+ * - all simulation, pointer and drawing logic lives in GraphEngine, which with `offscreen` runs in
+ *   a worker behind a GraphWorkerClient
  */
-export default function Graph() {
+const Graph = forwardRef<GraphHandle, GraphProps>(function Graph(
+  {
+    preset,
+    config,
+    data,
+    reducedMotion = "static",
+    renderer = "canvas",
+    offscreen = false,
+    hud = false,
+    onStats,
+    controls = false,
+    tooltips = true,
+    onNodeHover,
+    onNodeClick,
+    decorative = false,
+    ariaLabel,
+  },
+  ref
+) {
   const containerRef = useRef<HTMLDivElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const simulationRef = useRef<d3.Simulation<Node, undefined> | null>(null);
-
-  // responsive size state (initial fallback)
-  const [size, setSize] = useState({ width: INITIAL_WIDTH, height: INITIAL_HEIGHT });
-
-  const SPEED_FACTOR = 0.44;
-
-  // color weights
-  const COLOR_WEIGHTS: { color: string; weight: number }[] = [
-    { color: "#3cd962", weight: 0.75 }, // 75%
-    { color: "#FF00FF", weight: 0.18 }, // 18%
-    { color: "#e9fbfd", weight: 0.07 }, // 7%
-  ];
-
-  // radius factor bounds (10% - 20% of NODE_RADIUS)
-  const RADIUS_MIN_FACTOR = 0.10;
-  const RADIUS_MAX_FACTOR = 0.2;
-
-  // Determine node count based on width using your custom breakpoints
-  function getNodeCountForWidth(width: number) {
-    const { sm, lg } = customBreakpoints; //object destructuring
-    if (width < sm) return 75;        // mobile
-    if (width < lg) return 150;       // tablet (sm <= width < lg)
-    return 300;                       // desktop and larger (>= lg)
-  }
+  const svgRef = useRef<SVGSVGElement | null>(null);
+  const engineRef = useRef<Engine | null>(null);
+  const recorderRef = useRef<GraphRecorder | null>(null);
+
+  // config edits of the control drawer, applied over the config prop while it is shown
+  const controlsQuery = useSyncExternalStore(subscribeToNothing, readControlsQuery, () => false);
+  const showControls = controls || controlsQuery;
+  const [tuning, setTuning] = useState<Partial<GraphConfig>>({});
+  // layers: theme colors, the preset, the config prop, then the drawer
+  const theme = useTheme();
+  const { colorScheme } = useColorScheme();
+  const themeLayer = useMemo(() => themeGraphConfig(theme, colorScheme), [theme, colorScheme]);
+  const presetLayer = useMemo(() => (preset ? presetConfig(preset) : undefined), [preset]);
+  const hostConfig = useMemo(
+    () => mergeGraphConfigs(presetLayer, config, showControls ? tuning : undefined),
+    [presetLayer, config, tuning, showControls]
+  );
+  const activeConfig = useMemo(
+    () => mergeGraphConfigs(themeLayer, hostConfig),
+    [themeLayer, hostConfig]
+  );
 
-  // helper: pick a color according to weights
-  function pickWeightedColor(): string {
-    const r = Math.random();
-    let acc = 0;
-    for (const cw of COLOR_WEIGHTS) {
-      acc += cw.weight;
-      if (r <= acc) return cw.color;
-    }
-    return COLOR_WEIGHTS[0].color;
+  // latest props, read when the engine is created
+  const configRef = useRef(activeConfig);
+  const reducedMotionRef = useRef(reducedMotion);
+  const dataRef = useRef(data);
+  const offscreenRef = useRef(offscreen);
+
+  // HUD: shown by the prop, toggled by the shortcut until the prop changes again
+  const [hudVisible, setHudVisible] = useState(hud);
+  const [hudProp, setHudProp] = useState(hud);
+  if (hud !== hudProp) {
+    setHudProp(hud);
+    setHudVisible(hud);
   }
+  const [stats, setStats] = useState<GraphStats | null>(null);
+
+  // stats are only measured while the HUD is shown or someone listens
+  const measuring = hudVisible || onStats != null;
+  const measuringRef = useRef(measuring);
+  const hudVisibleRef = useRef(hudVisible);
+  const onStatsRef = useRef(onStats);
+  const statsListener = useCallback((next: GraphStats) => {
+    if (hudVisibleRef.current) setStats(next);
+    onStatsRef.current?.(next);
+  }, []);
 
-  // generate nodes with random positions inside current bounds
-  function generateNodes(count: number, width: number, height: number): Node[] {
-    return Array.from({ length: count }, (_, i) => {
-      const factor = RADIUS_MIN_FACTOR + Math.random() * (RADIUS_MAX_FACTOR - RADIUS_MIN_FACTOR);
-      const radius = Math.max(1, NODE_RADIUS * factor);
-
-      return {
-        id: i,
-        x: Math.random() * width,
-        y: Math.random() * height,
-        vx: (Math.random() - 0.5) * 2 * SPEED_FACTOR,
-        vy: (Math.random() - 0.5) * 2 * SPEED_FACTOR,
-        radius,
-        color: pickWeightedColor(),
-        fx: null,
-        fy: null
-      };
-    });
-  }
+  // picking: the hovered node feeds the tooltip, both events go on to the host
+  const [hoveredNode, setHoveredNode] = useState<PickedNode | null>(null);
+  const onNodeHoverRef = useRef(onNodeHover);
+  const onNodeClickRef = useRef(onNodeClick);
+
+  // screen readers: a label for the surface and a live region announcing the picked node
+  const helpId = useId();
+  const label = useMemo(() => {
+    if (ariaLabel) return ariaLabel;
+    if (data) return `Network graph of ${data.nodes.length} nodes and ${data.links.length} links`;
+    return "Animated network of drifting nodes";
+  }, [ariaLabel, data]);
+  const [announcement, setAnnouncement] = useState("");
+  const focusedRef = useRef(false); // only a focused graph speaks up
+
+  useImperativeHandle(ref, () => {
+    const mounted = () => {
+      const engine = engineRef.current;
+      if (!engine) throw new Error("Graph is not mounted");
+      return engine;
+    };
+    const toSvg = async () => mounted().toSvg();
+    return {
+      getSeed: () => engineRef.current?.getSeed() ?? null,
+      getSnapshot: async () => mounted().getSnapshot(),
+      loadSnapshot: (snapshot) => mounted().loadSnapshot(snapshot),
+      toSvg,
+      downloadSvg: async (filename = "graph.svg") => {
+        downloadBlob(new Blob([await toSvg()], { type: "image/svg+xml" }), filename);
+      },
+      captureFrame: async (options) => mounted().captureFrame(options),
+      captureSequence: async (frameCount, options) =>
+        captureSequence(mounted(), frameCount, options),
+      startRecording: (options) => {
+        const recorder = new GraphRecorder(mounted());
+        recorder.start(options);
+        recorderRef.current = recorder;
+      },
+      stopRecording: async () => {
+        const recorder = recorderRef.current;
+        if (!recorder) throw new Error("No recording is running");
+        recorderRef.current = null;
+        return recorder.stop();
+      },
+    };
+  }, []);
 
+  // apply theme, preset and config prop changes and drawer edits to the running engine
+  const looksRef = useRef({ themeLayer, presetLayer });
+  const appliedConfigRef = useRef(JSON.stringify(activeConfig));
   useEffect(() => {
-    const container = containerRef.current;
-    if (!container) return;
+    configRef.current = activeConfig;
+    /* a new preset or color scheme cross-fades, every other change applies at once; so does the
+      scheme becoming known after hydration, the page never showed the other one */
+    const looks = looksRef.current;
+    const fade =
+      looks.presetLayer !== presetLayer ||
+      (looks.themeLayer !== undefined && looks.themeLayer !== themeLayer);
+    looksRef.current = { themeLayer, presetLayer };
+    /* compare by value: an inline `config` object is new on every render, and re-applying an
+      unchanged config would replace the one of a loaded snapshot */
+    const applied = JSON.stringify(activeConfig);
+    if (!fade && applied === appliedConfigRef.current) return;
+    appliedConfigRef.current = applied;
+    engineRef.current?.setConfig(activeConfig, fade ? LOOK_TRANSITION_MS : 0);
+  }, [activeConfig, themeLayer, presetLayer]);
 
-    // initialize size from container
-    const rect = container.getBoundingClientRect();
-    /*
-      Math.floor - using integers avoids fractional widths that can cause subtle layout rounding
-        differences and inconsistent drawing coordinates.
-      Math.max - with 1 ensures we never set zero or negative dimensions which avoids bugs. */
+  useEffect(() => {
+    if (dataRef.current === data) return; // the engine was created with it
+    dataRef.current = data;
+    engineRef.current?.setData(data ?? null);
+  }, [data]);
+
+  useEffect(() => {
+    reducedMotionRef.current = reducedMotion;
+    engineRef.current?.setReducedMotion(reducedMotion);
+  }, [reducedMotion]);
+
+  useEffect(() => {
+    hudVisibleRef.current = hudVisible;
+    onStatsRef.current = onStats;
+    onNodeHoverRef.current = onNodeHover;
+    onNodeClickRef.current = onNodeClick;
+  }, [hudVisible, onStats, onNodeHover, onNodeClick]);
+
+  useEffect(() => {
+    measuringRef.current = measuring;
+    engineRef.current?.setStatsListener(measuring ? statsListener : null);
+  }, [measuring, statsListener]);
+
+  // Alt+Shift+H toggles the HUD (`code`, so the layout and the Alt character do not matter)
+  useEffect(() => {
+    const onKeyDown = (event: KeyboardEvent) => {
+      if (event.altKey && event.shiftKey && event.code === "KeyH") setHudVisible((v) => !v);
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const container = containerRef.current;
+    const surface = renderer === "svg" ? svgRef.current : canvasRef.current;
+    if (!container || !surface) return;
 
-      /* Deep Dive
+    /* Deep Dive
   ============================================================
   HOW SIZE INITIALIZATION WORKS IN THIS COMPONENT
   ============================================================
@@ -151,6 +366,7 @@ export default function Graph() {
   COMPONENT STRUCTURE:
     <Box ref={containerRef} sx={{ width: "100vw", height: "100vh" }}>
       <canvas ref={canvasRef} style={{ width: "100%", height: "100%" }} />
+      (or <svg ref={svgRef} /> with the same style when renderer="svg")
     </Box>
 
   IMPORTANT FACTS:
@@ -158,95 +374,71 @@ export default function Graph() {
     - The canvas is also sized by CSS (100% × 100%), so it visually fills the container.
     - BUT the canvas's *drawing buffer* (canvas.width / canvas.height) is NOT set by CSS.
       It defaults to 300 × 150 until we explicitly set it.
-    - The `size` state controls ONLY the drawing buffer, not the CSS layout.
-
-  The steps below describe exactly how React flows from:
-    (A) initial fallback drawing-buffer size
-    → (B) real measured container size
-    → (C) continuous updates via ResizeObserver.
-
-  ------------------------------------------------------------
-  1) Initial render
-  ------------------------------------------------------------
-  - React renders the <Box> container with CSS width:100vw and height:100vh.
-  - React renders the <canvas> with CSS width:100% and height:100%.
-  - The canvas visually fills the container.
-  - BUT the canvas's internal drawing buffer is still the browser default (300 × 150),
-    because we have not yet set canvas.width or canvas.height.
-
-  ------------------------------------------------------------
-  2) Browser layout + first paint
-  ------------------------------------------------------------
-  - The browser computes the container's actual pixel size (e.g., 1366 × 768).
-  - The canvas visually matches that size due to CSS (100% × 100%).
-  - The drawing buffer is still 300 × 150, so the canvas is blurry or scaled.
-
-  ------------------------------------------------------------
-  3) React runs the measurement useEffect (this effect)
-  ------------------------------------------------------------
-  - We call container.getBoundingClientRect() to read the REAL rendered size
-    of the container (e.g., width=1366, height=768).
-  - We call setSize({ width: 1366, height: 768 }).
-      IMPORTANT: React does NOT re-render immediately.
-      It QUEUES the state update.
-  - React continues executing the rest of this effect.
-
-  ------------------------------------------------------------
-  4) Still inside the same effect: set up ResizeObserver
-  ------------------------------------------------------------
-  - We create a ResizeObserver and call ro.observe(container).
-  - This registers a listener for future container size changes.
-  - No re-render happens yet; the observer is just set up.
-
-  ------------------------------------------------------------
-  5) The effect finishes completely
-  ------------------------------------------------------------
-  - Only AFTER the effect finishes does React process the queued state update.
-  - This ensures effects run to completion before React re-renders.
+    - The engine controls ONLY the drawing buffer, not the CSS layout.
 
   ------------------------------------------------------------
-  6) React re-renders with the REAL container size
+  1) Initial render + first paint
   ------------------------------------------------------------
-  - Now `size` contains the measured values (e.g., 1366 × 768).
-  - The canvas still uses CSS for layout, but now the canvas-setup effect runs.
-  - The canvas-setup effect sets:
-        canvas.width  = size.width   (e.g., 1366)
-        canvas.height = size.height  (e.g., 768)
-    which updates the drawing buffer to match the container exactly.
+  - React renders the <Box> container (100vw × 100vh) and the <canvas> (100% × 100%).
+  - The browser computes the real size (e.g., 1366 × 768) and the canvas visually matches it.
+  - The drawing buffer is still 300 × 150, so the canvas would be blurry or scaled.
 
   ------------------------------------------------------------
-  7) The UI is now fully synchronized
+  2) React runs this effect
   ------------------------------------------------------------
-  - The container and canvas visually match (CSS).
-  - The canvas drawing buffer matches the container's pixel size.
-  - The graph draws crisply and at the correct resolution.
+  - engine.mount(canvas) calls canvas.getBoundingClientRect() to read the REAL rendered size
+    and sets
+        canvas.width  = width  × devicePixelRatio
+        canvas.height = height × devicePixelRatio
+    so the drawing buffer matches the container exactly (crisp on Hi-DPI screens).
+  - The nodes are generated for that size and the frame loop starts.
 
   ------------------------------------------------------------
-  8) Future resizes handled by ResizeObserver
+  3) Future resizes handled by ResizeObserver
   ------------------------------------------------------------
   - If the container changes size (e.g., window resize, zoom, orientation change),
-    ResizeObserver fires.
-  - The callback receives entry.contentRect with the new size.
-  - We call setSize(...) again with the updated dimensions.
-  - React re-renders, the canvas effect updates the drawing buffer,
-    and the graph redraws.
-  - This keeps the canvas perfectly responsive forever.
+    ResizeObserver fires with entry.contentRect.
+  - We call engine.resize(width, height): the drawing buffer is updated, existing nodes are
+    rescaled into the new bounds and the graph redraws. Nothing is regenerated.
 
   ============================================================
   SUMMARY
   ============================================================
   - CSS determines the container and canvas layout size.
   - The canvas drawing buffer starts at 300 × 150.
-  - The measurement effect reads the real container size after first paint.
-  - setSize queues a re-render.
-  - The canvas effect sets the drawing buffer to match the container.
-  - ResizeObserver keeps everything synced on future resizes.
+  - engine.mount reads the real canvas size after first paint and sets the drawing buffer.
+  - ResizeObserver keeps the engine synced on future resizes.
 */
-
-    setSize({
-      width: Math.max(1, Math.floor(rect.width)),
-      height: Math.max(1, Math.floor(rect.height)),
-    });
+    const engine = mountEngine(
+      surface,
+      {
+        config: configRef.current,
+        reducedMotion: reducedMotionRef.current,
+        data: dataRef.current ?? null,
+        // adaptive quality starts from the counts settled on earlier visits
+        nodeCounts: loadNodeCounts(),
+        onNodeCountSettled: saveNodeCount,
+        onNodeHover: (node) => {
+          setHoveredNode(node);
+          if (node && focusedRef.current) {
+            setAnnouncement(`${nodeName(node)}${node.pinned ? ", pinned" : ""}`);
+          }
+          onNodeHoverRef.current?.(node);
+        },
+        onNodeClick: (node) => {
+          if (focusedRef.current) {
+            setAnnouncement(node
+              ? `${nodeName(node)} ${node.selected ? "pinned" : "released"}`
+              : "Selection released");
+          }
+          onNodeClickRef.current?.(node);
+        },
+      },
+      offscreenRef.current
+    );
+    if (measuringRef.current) engine.setStatsListener(statsListener);
+    engine.start();
+    engineRef.current = engine;
 
     // observe size changes
     /*
@@ -264,421 +456,84 @@ export default function Graph() {
       changes. It receives an array of `ResizeObserverEntry` objects, which provide information
       about the new size of the element.
     - Inside the callback, you can update the state or perform other actions based on the new size
-      of the element.
+      of the element. Here the new size goes straight to the engine: no React state and no
+      re-render is involved.
     */
     const ro = new ResizeObserver((entries) => {
       for (const entry of entries) {
         const cr = entry.contentRect;
-        setSize({
-          width: Math.max(1, Math.floor(cr.width)),
-          height: Math.max(1, Math.floor(cr.height)),
-        });
+        engine.resize(cr.width, cr.height);
       }
     });
     ro.observe(container);
-    return () => ro.disconnect();
-  }, []);
-
-  useEffect(() => {
-    const canvas = canvasRef.current!;
-    if (!canvas) return;
-
-    const { width, height } = size;
-
-    // compute node count for current width
-    const NODE_COUNT = getNodeCountForWidth(width);
-    // console.log(`CanvasForceGraph — size: ${width}x${height}, NODE_COUNT: ${NODE_COUNT}`);
-
-    // Hi-DPI scaling
-    const dpr = window.devicePixelRatio || 1; //Measure the device pixel ratio defined as number of pixels per CSS pixel
-    canvas.width = Math.max(1, Math.floor(width * dpr));
-    canvas.height = Math.max(1, Math.floor(height * dpr));
-    canvas.style.width = `${width}px`;
-    canvas.style.height = `${height}px`;
-    const ctx = canvas.getContext("2d", { alpha: false })!;
-    /*
-      🔎 Canvas Transform Matrix
-
-      The 2D canvas transform is represented by a 3×3 matrix. Because the
-      bottom row is always [0, 0, 1], only six values are required:
-
-        setTransform(a, b, c, d, e, f) =>
-        [ a  c  e
-          b  d  f
-          0  0  1 ]
-
-      Where:
-        a = scale X
-        b = skew Y
-        c = skew X
-        d = scale Y
-        e = translate X
-        f = translate Y
-
-      ✅ Identity matrix (do nothing):
-        [ 1 0 0
-          0 1 0
-          0 0 1 ]
-
-      For the identity transform:
-        a = 1   (no scale X)
-        d = 1   (no scale Y)
-        b = 0,
-        c = 0   (no skew/rotation)
-        e = 0,
-        f = 0   (no translation)
-    */
-    ctx.setTransform(1, 0, 0, 1, 0, 0); //Multiplying by identity matrix resets any existing transforms
-    ctx.scale(dpr, dpr);
-
-    // ensure touch interactions don't trigger page scroll while interacting
-    canvas.style.touchAction = "none";
-
-    // generate nodes inside current bounds
-    const nodes = generateNodes(NODE_COUNT, width, height);
-
-    // create a dedicated mouse node (id = -1)
-    const mouseRadius = Math.max(1, NODE_RADIUS * 0.15);
-    const mouseNode: Node = {
-      id: -1,
-      x: width / 2,
-      y: height / 2,
-      vx: 0,
-      vy: 0,
-      radius: mouseRadius,
-      color: "#3cd962",
-      fx: null,
-      fy: null
-    };
-
-    // append mouse node to nodes array so it participates in edges
-    nodes.push(mouseNode);
-
-    // stop previous simulation if any
-    if (simulationRef.current) {
-      simulationRef.current.stop();
-      simulationRef.current = null;
-    }
-
-    // Create simulation
-    // Each method is defined to return this (the simulation instance).
-    const simulation = d3.forceSimulation(nodes)
-      .force("charge", d3.forceManyBody().strength(0))
-      .alpha(1)
-      .alphaDecay(0)
-      .velocityDecay(0)
-      .on("tick", ticked);
-
-    simulationRef.current = simulation;
-
-    // Pointer handling state
-    let rafId: number | null = null;
-    let lastEvent: PointerEvent | null = null;
-    let isDragging = false;
-    let activePointerId: number | null = null;
-
-    // Helper: linear interpolation
-    const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
-
-    // Global pointer move (hover-like behavior) — still useful when not actively dragging
-    function handlePointerMoveGlobal(e: PointerEvent) {
-      // store last event and schedule rAF processing
-      lastEvent = e;
-      if (rafId == null) {
-        rafId = requestAnimationFrame(processPointer);
-      }
-    }
-
-    // Process pointer events in rAF loop
-    function processPointer() {
-      rafId = null;
-      if (!lastEvent) return;
-      const rect = canvas.getBoundingClientRect();
-      /* We subtract the  */
-      let cx = lastEvent.clientX - rect.left;//cx is the canvas x coordinate. 
-      let cy = lastEvent.clientY - rect.top;
-      // clamp to canvas bounds
-      cx = Math.max(0, Math.min(cx, rect.width));
-      cy = Math.max(0, Math.min(cy, rect.height));
-
-      if (isDragging) {
-        // Smooth the drag motion for touch by lerping toward the pointer
-        //!zzz How does lerp and screen refreshes work with each other?
-        mouseNode.x = lerp(mouseNode.x ?? cx, cx, DRAG_LERP);
-        mouseNode.y = lerp(mouseNode.y ?? cy, cy, DRAG_LERP);
-        mouseNode.fx = mouseNode.x;
-        mouseNode.fy = mouseNode.y;
-      } else {
-        // Hover behavior: immediate follow (keeps node pinned to pointer)
-        mouseNode.x = cx;
-        mouseNode.y = cy;
-        mouseNode.fx = cx;
-        mouseNode.fy = cy;
-      }
-
-      // nudge simulation so it reacts immediately
-      simulation.alpha(0.1);
-      lastEvent = null;
-    }
-
-    // Start drag on pointerdown (capture pointer)
-    function onPointerDown(e: PointerEvent) {
-      // only primary pointer
-      if (!e.isPrimary) return;
-      // prevent default to avoid touch scrolling (listener must be non-passive)
-      e.preventDefault();
-
-      isDragging = true;
-      activePointerId = e.pointerId;
-      lastEvent = e;
-      // capture pointer so we keep receiving events even if finger leaves canvas
-      try {
-        (e.target as Element).setPointerCapture(e.pointerId);
-      } catch {
-        // ignore if not supported
-      }
-
-      // ensure rAF loop runs
-      if (rafId == null) rafId = requestAnimationFrame(processPointer);
-
-      // make simulation responsive while dragging
-      simulation.alphaTarget(0.1);
-      simulation.restart();
-    }
-
-    // End drag on pointerup / pointercancel
-    function endDragFromEvent(e: PointerEvent) {
-      if (!e.isPrimary) return;
-      if (activePointerId !== e.pointerId) {
-        // if pointer IDs don't match, still end drag for safety
-      }
-      isDragging = false;
-      activePointerId = null;
-      lastEvent = null;
-      // release pointer capture
-      try {
-        (e.target as Element).releasePointerCapture(e.pointerId);
-      } catch {
-        // ignore
-      }
-      // allow simulation to settle
-      simulation.alphaTarget(0);
-    }
-
-    // pointerup handler
-    function onPointerUp(e: PointerEvent) {
-      endDragFromEvent(e);
-    }
-
-    // pointercancel handler
-    function onPointerCancel(e: PointerEvent) {
-      endDragFromEvent(e);
-    }
-
-    // pointerleave of window: unpin so nodes can drift
-    function handlePointerLeaveGlobal() {
-      if (!isDragging) {
-        mouseNode.fx = null;
-        mouseNode.fy = null;
-      }
-    }
-
-    // Attach listeners
-    // pointerdown must be non-passive so we can call preventDefault to stop scrolling
-    canvas.addEventListener("pointerdown", onPointerDown, { passive: false });
-    canvas.addEventListener("pointermove", handlePointerMoveGlobal);
-    canvas.addEventListener("pointerup", onPointerUp);
-    canvas.addEventListener("pointercancel", onPointerCancel);
-    window.addEventListener("pointermove", handlePointerMoveGlobal);
-    window.addEventListener("pointerleave", handlePointerLeaveGlobal);
-
-    // Tick handler: update canvas each tick and handle bouncing using current width/height
-    function ticked() {
-      for (const n of nodes) {
-        // if mouse node is pinned, keep its velocity zero and skip bounce adjustments
-        if (n.id === -1 && n.fx != null && n.fy != null) {
-          n.vx = 0;
-          n.vy = 0;
-          // ensure x/y match pinned position
-          n.x = n.fx;
-          n.y = n.fy;
-          continue;
-        }
-
-        // clamp and reflect X
-        if (n.x! <= n.radius!) {
-          n.x = n.radius!;
-          n.vx = Math.abs(n.vx ?? 0);
-        } else if (n.x! >= width - n.radius!) {
-          n.x = width - n.radius!;
-          n.vx = -(Math.abs(n.vx ?? 0));
-        }
-
-        // clamp and reflect Y
-        if (n.y! <= n.radius!) {
-          n.y = n.radius!;
-          n.vy = Math.abs(n.vy ?? 0);
-        } else if (n.y! >= height - n.radius!) {
-          n.y = height - n.radius!;
-          n.vy = -(Math.abs(n.vy ?? 0));
-        }
-      }
-
-      drawFrameWithSeparateRadii(ctx, nodes, width, height, mouseNode);
-    }
 
-    // initial draw
-    drawFrameWithSeparateRadii(ctx, nodes, width, height, mouseNode);
-
-    // cleanup on unmount or size change
     return () => {
-      simulation.stop();
-      simulationRef.current = null;
-
-      canvas.removeEventListener("pointerdown", onPointerDown);
-      canvas.removeEventListener("pointermove", handlePointerMoveGlobal);
-      canvas.removeEventListener("pointerup", onPointerUp);
-      canvas.removeEventListener("pointercancel", onPointerCancel);
-      window.removeEventListener("pointermove", handlePointerMoveGlobal);
-      window.removeEventListener("pointerleave", handlePointerLeaveGlobal);
-
-      // release any pointer capture if still active
-      try {
-        if (activePointerId != null) {
-          (canvas as Element).releasePointerCapture(activePointerId);
-        }
-      } catch {}
-
-      if (rafId != null) {
-        cancelAnimationFrame(rafId);
-        rafId = null;
-      }
+      ro.disconnect();
+      recorderRef.current?.cancel();
+      recorderRef.current = null;
+      engine.destroy();
+      engineRef.current = null;
+    };
+  }, [renderer, statsListener]);
+
+  const resolvedConfig = resolveGraphConfig(activeConfig);
+  // a theme background is read from its CSS variable, which is right from the first paint
+  const themeBackground = hostConfig.backgroundColor ?? theme.vars?.palette.graph?.background;
+  // the surface is either hidden from assistive technology or a focusable, labelled application
+  const surfaceProps = decorative
+    ? { "aria-hidden": true }
+    : {
+      "aria-describedby": helpId,
+      "aria-label": label,
+      "aria-roledescription": "graph",
+      onBlur: () => {
+        focusedRef.current = false;
+      },
+      onFocus: () => {
+        focusedRef.current = true;
+      },
+      role: "application",
+      tabIndex: 0,
     };
-  }, [size.width, size.height]); // re-run when container size changes
-
   return (
     <Box
       ref={containerRef}
       sx={{
-        backgroundColor: "#0a1a1f",
+        // keyboard focus ring of the surface, drawn inside so the viewport does not clip it
+        "& > :focus-visible": {
+          outline: "2px solid",
+          outlineColor: "primary.main",
+          outlineOffset: -2
+        },
+        backgroundColor: themeBackground ?? resolvedConfig.backgroundColor,
         height: "100vh",
         position: "relative",
+        /* the canvas and the svg are transparent, so this is the graph's background; it fades over
+          the same time as the engine's cross-fade when the preset or color scheme changes */
+        transition: `background-color ${LOOK_TRANSITION_MS}ms ease-in-out`,
         width: "100vw"
       }}
     >
-      <canvas
-        ref={canvasRef}
-        style={{
-          display: "block",
-          height: "100%",
-          touchAction: "none", // extra safety for some browsers
-          width: "100%"
-        }}
-      />
+      {renderer === "svg"
+        ? <svg ref={svgRef} style={surfaceStyle} {...surfaceProps} />
+        : <canvas ref={canvasRef} style={surfaceStyle} {...surfaceProps} />}
+      {!decorative && (
+        <>
+          <Box id={helpId} sx={visuallyHidden}>{KEYBOARD_HELP}</Box>
+          <Box aria-live="polite" role="status" sx={visuallyHidden}>{announcement}</Box>
+        </>
+      )}
+      {tooltips && <GraphTooltip decorative={decorative} node={hoveredNode} />}
+      {hudVisible && <GraphHud stats={stats} />}
+      {showControls && (
+        <GraphControls
+          config={resolvedConfig}
+          onChange={(overrides) => setTuning((prev) => ({ ...prev, ...overrides }))}
+          onReset={() => setTuning({})}
+        />
+      )}
     </Box>
   );
-}
-
-/**
- * drawFrameWithSeparateRadii
- * - draws edges and nodes
- * - uses MOUSE_EFFECT_RADIUS_EDGES and MOUSE_EFFECT_RADIUS_NODES separately
- * - edges disappear before nodes (edges use smaller radius)
- */
-function drawFrameWithSeparateRadii(
-  ctx: CanvasRenderingContext2D,
-  nodes: Node[],
-  width: number,
-  height: number,
-  mouseNode: Node
-) {
-  ctx.clearRect(0, 0, width, height);
-
-  // squared radii for faster checks
-  const rNodes = MOUSE_EFFECT_RADIUS_NODES;
-  const rNodes2 = rNodes * rNodes;
-  const rEdges = MOUSE_EFFECT_RADIUS_EDGES;
-  const rEdges2 = rEdges * rEdges;
-
-  // compute edges (naive O(n^2) — fine for moderate node counts)
-  const edges: { a: Node; b: Node; dist: number }[] = [];
-  for (let i = 0; i < nodes.length; i++) {
-    for (let j = i + 1; j < nodes.length; j++) {
-      const a = nodes[i];
-      const b = nodes[j];
-      const dx = a.x! - b.x!;
-      const dy = a.y! - b.y!;
-      const dist = Math.hypot(dx, dy);
-      if (dist <= LINK_DISTANCE) {
-        edges.push({ a, b, dist });
-      }
-    }
-  }
-
-  // Helper: compute proximity factor (0..1) from a node to mouseNode using a given radius squared
-  function proximityFactorToMouseWithRadius(n: Node, radius: number, radius2: number) {
-    const dx = (n.x ?? 0) - (mouseNode.x ?? 0);
-    const dy = (n.y ?? 0) - (mouseNode.y ?? 0);
-    const d2 = dx * dx + dy * dy;
-    if (d2 >= radius2) return 0; // outside effect radius -> fully invisible for that category
-    const t = Math.sqrt(d2) / radius; // 0..1
-    if (MOUSE_FALLOFF === "linear") {
-      return Math.max(0, 1 - t);
-    } else {
-      // quadratic falloff (smoother)
-      return Math.max(0, 1 - t * t);
-    }
-  }
-
-  // draw edges (edges use rEdges)
-  ctx.lineWidth = 1;
-  ctx.lineCap = "round";
-  for (const e of edges) {
-    // base opacity from edge distance
-    const baseOpacity = Math.max(0, 1 - e.dist / LINK_DISTANCE);
-
-    // proximity influence for edges: average of the two node proximity factors using edge radius
-    const paEdge = proximityFactorToMouseWithRadius(e.a, rEdges, rEdges2);
-    const pbEdge = proximityFactorToMouseWithRadius(e.b, rEdges, rEdges2);
+});
 
-    // If both nodes are outside the edge effect radius, skip the edge entirely
-    if (paEdge === 0 && pbEdge === 0) continue;
-
-    const proximityEdge = (paEdge + pbEdge) / 2;
-
-    // combine: edges near mouse get brighter; far edges (outside edge radius) are invisible
-    const combinedOpacity = baseOpacity * proximityEdge;
-
-    if (combinedOpacity <= 0.005) continue; // skip drawing extremely faint edges
-
-    // use the chosen edge color (#4cc9e5 -> rgb(76,201,229))
-    ctx.strokeStyle = `rgba(76,201,229,${combinedOpacity.toFixed(3)})`;
-    ctx.beginPath();
-    ctx.moveTo(e.a.x!, e.a.y!);
-    ctx.lineTo(e.b.x!, e.b.y!);
-    ctx.stroke();
-  }
-
-  // draw nodes (nodes use rNodes)
-  for (const n of nodes) {
-    // compute proximity factor for this node using node radius
-    const pNode = proximityFactorToMouseWithRadius(n, rNodes, rNodes2); // 0..1
-
-    // If node is outside the node effect radius, skip drawing (opacity 0)
-    if (pNode === 0) continue;
-
-    // map proximity to alpha directly (closer => alpha closer to 1)
-    const alpha = pNode;
-    if (alpha <= 0.01) continue;
-
-    // convert node color to rgb and apply alpha
-    const { r: cr, g: cg, b: cb } = hexToRgb(n.color ?? "#9fb4c8");
-    ctx.beginPath();
-    ctx.fillStyle = `rgba(${cr},${cg},${cb},${alpha.toFixed(3)})`;
-
-    // Optionally scale radius slightly by proximity for a subtle "pulse"
-    const drawRadius = n.radius! * (1 + 0.35 * pNode);
-    ctx.arc(n.x!, n.y!, drawRadius, 0, Math.PI * 2);
-    ctx.fill();
-  }
-}
+export default Graph;
@@ -0,0 +1,248 @@
+import {
+  Box,
+  Button,
+  Drawer,
+  FormControlLabel,
+  Slider,
+  Snackbar,
+  Stack,
+  Switch,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography
+} from '@mui/material';
+import { useState } from 'react';
+import {
+  type ColorWeight,
+  DEFAULT_GRAPH_CONFIG,
+  diffGraphConfig,
+  type GraphConfig,
+  type MouseFalloff
+} from './graphConfig.ts';
+
+type NumericField = "linkDistance" | "mouseEffectRadiusNodes" | "mouseEffectRadiusEdges" | "speed";
+
+type SliderSpec = {
+  key: NumericField;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+};
+
+const SLIDERS: SliderSpec[] = [
+  { key: "linkDistance", label: "Link distance (px)", min: 20, max: 300, step: 1 },
+  { key: "mouseEffectRadiusNodes", label: "Node effect radius (px)", min: 0, max: 1500, step: 10 },
+  { key: "mouseEffectRadiusEdges", label: "Edge effect radius (px)", min: 0, max: 1000, step: 5 },
+  { key: "speed", label: "Speed (px/s)", min: 0, max: 200, step: 0.5 },
+];
+
+const MAX_NODE_COUNT = 1000;
+const FIXED_NODE_COUNT = 150; // first value when switching from the width-based count
+const PANEL_WIDTH = 320;
+
+type GraphControlsProps = {
+  config: GraphConfig; // the config the graph currently runs with
+  onChange: (overrides: Partial<GraphConfig>) => void; // merged over the earlier ones
+  onReset: () => void; // drop every edit, back to the theme, preset and `config` prop
+};
+
+/**
+ * GraphControls — tuning drawer of Graph (`controls` prop or `?graphControls`):
+ * - sliders for link distance, both mouse effect radii, speed and the node count, the falloff
+ *   curve and the color weights; every change goes live through `onChange`
+ * - color weights always sum to 1: moving one slider scales the others into the rest
+ * - "Copy config as JSON" copies the fields that differ from DEFAULT_GRAPH_CONFIG, ready to
+ *   paste as the `config` prop
+ * - "Reset to defaults" sets every field to DEFAULT_GRAPH_CONFIG, over the theme, preset and
+ *   `config` prop; "Reset edits" drops the panel's overrides, so the graph returns to the look
+ *   it had without the drawer
+ */
+export default function GraphControls({ config, onChange, onReset }: GraphControlsProps) {
+  const [open, setOpen] = useState(false);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  const copyConfig = async () => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(diffGraphConfig(config), null, 2));
+      setNotice("Config copied to the clipboard");
+    } catch {
+      setNotice("The clipboard is not available");
+    }
+  };
+
+  return (
+    <>
+      <Button
+        onClick={() => setOpen(true)}
+        size="small"
+        sx={{ position: "absolute", right: 8, top: 8, zIndex: 1 }}
+        variant="contained"
+      >
+        Tune
+      </Button>
+      <Drawer
+        anchor="right"
+        onClose={() => setOpen(false)}
+        open={open}
+        slotProps={{ paper: { sx: { p: 2, width: PANEL_WIDTH } } }}
+        variant="persistent"
+      >
+        <Stack spacing={2}>
+          <Stack direction="row" sx={{ alignItems: "center", justifyContent: "space-between" }}>
+            <Typography variant="h6">Graph</Typography>
+            <Button onClick={() => setOpen(false)} size="small">Close</Button>
+          </Stack>
+
+          {SLIDERS.map(({ key, label, min, max, step }) => (
+            <Box key={key}>
+              <Typography gutterBottom variant="body2">{label}</Typography>
+              <Slider
+                max={max}
+                min={min}
+                onChange={(_, value) => onChange({ [key]: value as number })}
+                size="small"
+                step={step}
+                value={config[key]}
+                valueLabelDisplay="auto"
+              />
+            </Box>
+          ))}
+
+          <Box>
+            <Typography gutterBottom variant="body2">Falloff</Typography>
+            <ToggleButtonGroup
+              exclusive
+              onChange={(_, value: MouseFalloff | null) => {
+                if (value) onChange({ mouseFalloff: value });
+              }}
+              size="small"
+              value={config.mouseFalloff}
+            >
+              <ToggleButton value="linear">Linear</ToggleButton>
+              <ToggleButton value="quadratic">Quadratic</ToggleButton>
+            </ToggleButtonGroup>
+          </Box>
+
+          <Box>
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={config.nodeCount != null}
+                  onChange={(_, fixed) => onChange({ nodeCount: fixed ? FIXED_NODE_COUNT : null })}
+                  size="small"
+                />
+              }
+              label={<Typography variant="body2">Fixed node count</Typography>}
+            />
+            <Slider
+              disabled={config.nodeCount == null}
+              max={MAX_NODE_COUNT}
+              min={0}
+              onChange={(_, value) => onChange({ nodeCount: value as number })}
+              size="small"
+              step={5}
+              value={config.nodeCount ?? FIXED_NODE_COUNT}
+              valueLabelDisplay="auto"
+            />
+          </Box>
+
+          <ColorWeightsEditor
+            colorWeights={config.colorWeights}
+            onChange={(colorWeights) => onChange({ colorWeights })}
+          />
+
+          <Stack direction="row" spacing={1}>
+            <Button onClick={copyConfig} size="small" variant="outlined">
+              Copy config as JSON
+            </Button>
+          </Stack>
+          <Stack direction="row" spacing={1}>
+            <Button onClick={() => onChange(DEFAULT_GRAPH_CONFIG)} size="small">
+              Reset to defaults
+            </Button>
+            <Button onClick={onReset} size="small">Reset edits</Button>
+          </Stack>
+        </Stack>
+      </Drawer>
+      <Snackbar
+        autoHideDuration={2500}
+        message={notice}
+        onClose={() => setNotice(null)}
+        open={notice != null}
+      />
+    </>
+  );
+}
+
+type ColorWeightsEditorProps = {
+  colorWeights: ColorWeight[];
+  onChange: (colorWeights: ColorWeight[]) => void;
+};
+
+// one row per color: a color picker, its share and a remove button
+function ColorWeightsEditor({ colorWeights, onChange }: ColorWeightsEditorProps) {
+  const update = (index: number, patch: Partial<ColorWeight>) =>
+    onChange(colorWeights.map((cw, i) => (i === index ? { ...cw, ...patch } : cw)));
+
+  return (
+    <Box>
+      <Typography gutterBottom variant="body2">Colors</Typography>
+      {colorWeights.map((cw, index) => (
+        <Stack direction="row" key={index} spacing={1} sx={{ alignItems: "center" }}>
+          <TextField
+            onChange={(event) => update(index, { color: event.target.value })}
+            size="small"
+            slotProps={{ htmlInput: { "aria-label": `Color ${index + 1}` } }}
+            sx={{ width: 64 }}
+            type="color"
+            value={cw.color}
+          />
+          <Slider
+            aria-label={`Share of color ${index + 1}`}
+            disabled={colorWeights.length === 1}
+            max={1}
+            min={0}
+            onChange={(_, value) => onChange(rebalance(colorWeights, index, value as number))}
+            size="small"
+            step={0.01}
+            value={cw.weight}
+            valueLabelDisplay="auto"
+            valueLabelFormat={(value) => `${Math.round(value * 100)}%`}
+          />
+          <Button
+            disabled={colorWeights.length === 1}
+            onClick={() => onChange(normalize(colorWeights.filter((_, i) => i !== index)))}
+            size="small"
+          >
+            Remove
+          </Button>
+        </Stack>
+      ))}
+      <Button
+        onClick={() => onChange([...colorWeights, { color: "#ffffff", weight: 0 }])}
+        size="small"
+      >
+        Add color
+      </Button>
+    </Box>
+  );
+}
+
+// set one weight and scale the others into the rest, so the weights keep summing to 1
+function rebalance(colorWeights: ColorWeight[], index: number, weight: number): ColorWeight[] {
+  const others = colorWeights.reduce((sum, cw, i) => (i === index ? sum : sum + cw.weight), 0);
+  const share = (cw: ColorWeight) =>
+    others > 0 ? (cw.weight / others) * (1 - weight) : (1 - weight) / (colorWeights.length - 1);
+  return colorWeights.map((cw, i) => ({ ...cw, weight: i === index ? weight : share(cw) }));
+}
+
+// scale weights to sum to 1 (equal shares if they are all 0)
+function normalize(colorWeights: ColorWeight[]): ColorWeight[] {
+  const sum = colorWeights.reduce((total, cw) => total + cw.weight, 0);
+  return colorWeights.map((cw) => ({
+    ...cw,
+    weight: sum > 0 ? cw.weight / sum : 1 / colorWeights.length,
+  }));
+}
@@ -0,0 +1,175 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GraphEngine } from './GraphEngine.ts';
+
+// a headless engine with a fixed layout
+function createEngine(config = {}) {
+  const engine = new GraphEngine({ config: { seed: 7, ...config }, manual: true });
+  engine.resize(800, 600);
+  return engine;
+}
+
+const positions = (engine: GraphEngine) => engine.getNodes().map((n) => [n.x, n.y]);
+
+describe("GraphEngine (manual)", () => {
+  it("reproduces the same layout and motion from the same seed", () => {
+    const a = createEngine();
+    const b = createEngine();
+    a.step(120);
+    b.step(120);
+    expect(positions(a)).toEqual(positions(b));
+  });
+
+  it("only moves when stepped", () => {
+    const engine = createEngine();
+    const before = positions(engine);
+    expect(positions(engine)).toEqual(before);
+    engine.step(1);
+    expect(positions(engine)).not.toEqual(before);
+  });
+
+  it("keeps every node within the walls while bouncing", () => {
+    const engine = createEngine({ speed: 600 });
+    for (let i = 0; i < 10; i++) {
+      engine.step(30);
+      for (const n of engine.getNodes()) {
+        if (n.id < 0) continue;
+        expect(n.x).toBeGreaterThanOrEqual(0);
+        expect(n.x).toBeLessThanOrEqual(800);
+        expect(n.y).toBeGreaterThanOrEqual(0);
+        expect(n.y).toBeLessThanOrEqual(600);
+      }
+    }
+  });
+
+  it("stops at speed 0 and drifts again once the speed is raised", () => {
+    const engine = createEngine();
+    engine.setConfig({ seed: 7, speed: 0 });
+    engine.step(1); // the walls push in nodes generated on them
+    const stopped = positions(engine);
+    engine.step(30);
+    expect(positions(engine)).toEqual(stopped);
+
+    engine.setConfig({ seed: 7, speed: 30 });
+    engine.step(30);
+    const moved = positions(engine).filter(
+      ([x, y], i) => x !== stopped[i][0] || y !== stopped[i][1]
+    );
+    // every regular node, only the mouse node stays where it is
+    expect(moved).toHaveLength(stopped.length - 1);
+  });
+
+  it("gives a second finger its own touch node, which fades out after release", () => {
+    const engine = createEngine();
+    const touchNodes = () => engine.getNodes().filter((n) => n.id < -1);
+    engine.pointerDown({ pointerId: 1, isPrimary: true, x: 100, y: 100 });
+    engine.pointerDown({ pointerId: 2, isPrimary: false, x: 300, y: 300 });
+    expect(touchNodes()).toHaveLength(1);
+    expect(touchNodes()[0]).toMatchObject({ fx: 300, fy: 300 });
+
+    engine.pointerUp({ pointerId: 2, isPrimary: false, x: 300, y: 300 });
+    engine.step(60);
+    expect(touchNodes()).toHaveLength(0);
+  });
+
+  it("draws exactly the dataset's links in data mode, and lets the layout settle", () => {
+    const data = {
+      nodes: [{ id: "a" }, { id: "b" }, { id: "c" }],
+      links: [{ source: "a", target: "b" }, { source: "b", target: "c" }],
+    };
+    const engine = new GraphEngine({ config: { seed: 7 }, manual: true, data });
+    engine.resize(800, 600);
+    expect(engine.getNodes().filter((n) => n.id >= 0)).toHaveLength(3);
+
+    engine.step(600);
+    const edges = engine.getFrameModel().edges.map((e) => [e.a.dataId, e.b.dataId]);
+    expect(edges).toEqual([["a", "b"], ["b", "c"]]);
+    // settled: another second barely moves anything
+    const settled = positions(engine);
+    engine.step(60);
+    positions(engine).forEach(([x, y], i) => {
+      expect(Math.hypot(x! - settled[i][0]!, y! - settled[i][1]!)).toBeLessThan(0.01);
+    });
+  });
+
+  it("keeps a settled data layout settled while the pointer only hovers", () => {
+    const data = {
+      nodes: [{ id: "a" }, { id: "b" }, { id: "c" }],
+      links: [{ source: "a", target: "b" }, { source: "b", target: "c" }],
+    };
+    const engine = new GraphEngine({ config: { seed: 7 }, manual: true, data });
+    engine.resize(800, 600);
+    engine.step(600);
+
+    // hover far away from the nodes for a second, moving every frame
+    const settled = positions(engine).slice(0, 3);
+    for (let i = 0; i < 60; i++) {
+      engine.pointerMove({ pointerId: 1, isPrimary: true, x: 10 + i, y: 10 });
+      engine.step(1);
+    }
+    positions(engine).slice(0, 3).forEach(([x, y], i) => {
+      expect(Math.hypot(x! - settled[i][0]!, y! - settled[i][1]!)).toBeLessThan(0.01);
+    });
+  });
+
+  it("fades to a fixed nodeCount without a frame loop", () => {
+    const engine = createEngine();
+    const regular = () => engine.getNodes().filter((n) => n.id >= 0);
+    engine.setConfig({ nodeCount: 12 });
+    expect(regular()).toHaveLength(12);
+    engine.setConfig({ nodeCount: 20 });
+    expect(regular()).toHaveLength(20);
+    expect(regular().every((n) => n.fade == null)).toBe(true);
+  });
+
+  it("moves the mouse node with the arrow keys, within the canvas, and lets go on Escape", () => {
+    const engine = createEngine();
+    const mouse = () => engine.getNodes().find((n) => n.id === -1)!;
+    engine.pointerMove({ pointerId: 1, isPrimary: true, x: 100, y: 100 });
+
+    engine.keyDown({ key: "ArrowRight", fast: false });
+    engine.keyDown({ key: "ArrowUp", fast: true });
+    expect(mouse()).toMatchObject({ fx: 108, fy: 60 });
+    for (let i = 0; i < 5; i++) engine.keyDown({ key: "ArrowUp", fast: true });
+    expect(mouse().fy).toBe(0);
+
+    engine.keyDown({ key: "Escape", fast: false });
+    expect(mouse()).toMatchObject({ fx: null, fy: null });
+  });
+});
+
+describe("GraphEngine (frame loop)", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("drops a running cross-fade when a snapshot is loaded", () => {
+    // a frame loop driven by hand, 16 ms per frame
+    let frame: FrameRequestCallback | null = null;
+    let time = 0;
+    vi.stubGlobal("requestAnimationFrame", (callback: FrameRequestCallback) => {
+      frame = callback;
+      return 1;
+    });
+    vi.stubGlobal("cancelAnimationFrame", () => (frame = null));
+    vi.stubGlobal("document", { hidden: false, addEventListener() {}, removeEventListener() {} });
+    const tick = () => {
+      const callback = frame;
+      frame = null;
+      callback?.((time += 16));
+    };
+
+    const engine = new GraphEngine({ config: { seed: 3 } });
+    engine.resize(800, 600);
+    const snapshot = engine.getSnapshot();
+    snapshot.config.edgeColor = "#00ff00";
+    engine.start();
+    tick();
+
+    engine.setConfig({ seed: 3, edgeColor: "#0000ff" }, 800);
+    tick();
+    engine.loadSnapshot(snapshot);
+    tick();
+    expect(engine.getConfig().edgeColor).toBe("#00ff00");
+    engine.stop();
+  });
+});
@@ -0,0 +1,1017 @@
+import * as d3 from 'd3-force';
+import {
+  applyConfigChange,
+  createMouseNode,
+  generateNodes,
+  getNodeCountForWidth,
+  getNodeCountTier,
+  NODE_COUNT_BY_TIER,
+  type NodeCountTier,
+  type Node,
+  resizeNodes
+} from './nodes.ts';
+import { createRandom, type RandomSource, randomSeed } from './random.ts';
+import { applyBoundary, forceSoftBoundary } from './boundaries.ts';
+import { forcePointer, type PointerSample } from './pointerForce.ts';
+import { type GraphConfig, resolveGraphConfig } from './graphConfig.ts';
+import { computeFrameModel, type FrameModel } from './frameModel.ts';
+import { REFERENCE_FPS, stepSimulation } from './timeStep.ts';
+import { frameToSvg, SvgRenderer } from './svgRenderer.ts';
+import { Canvas2DRenderer } from './canvasRenderer.ts';
+import { type GraphRenderer } from './renderer.ts';
+import {
+  canvasToPng,
+  type CaptureOptions,
+  createExportCanvas,
+  drawExportFrame,
+  resolveCaptureSize
+} from './capture.ts';
+import { type RecordingSource } from './recorder.ts';
+import { createSnapshot, type GraphSnapshot, parseSnapshot, restoreNodes } from './snapshot.ts';
+import { type DrawingContext } from './drawFrame.ts';
+import {
+  type EnvironmentState,
+  type GraphInputSink,
+  type KeyInput,
+  observeCanvas,
+  type PointerInput
+} from './domInput.ts';
+import {
+  createDataLinks,
+  createDataNodes,
+  type DataLink,
+  type GraphData,
+  styleDataNodes,
+  validateGraphData
+} from './graphData.ts';
+import { SpatialGrid } from './spatialGrid.ts';
+import { type GraphStats, StatsMeter } from './stats.ts';
+import { type NodeCounts, QualityGovernor } from './quality.ts';
+import { captureLooks, ConfigTransition } from './transition.ts';
+import { NodePicker, type PickedNode, toPickedNode } from './picking.ts';
+
+/** Time scale of the "slow" reduced motion behavior */
+const REDUCED_MOTION_SPEED = 0.15;
+
+/** Duration of the fade in / fade out of a touch node, ms */
+const TOUCH_FADE_MS = 200;
+
+/** Duration of the fade of nodes added or removed by adaptive quality, ms */
+const QUALITY_FADE_MS = 600;
+
+/** A press that moves less than this (px) before it is released is a click */
+const CLICK_SLOP = 5;
+
+/** Distance an arrow key moves the mouse node, px; with Shift KEY_STEP_FAST */
+const KEY_STEP = 8;
+const KEY_STEP_FAST = 40;
+
+/* Data mode lets the layout settle like a regular d3 force graph (these are d3's defaults), while
+  the ambient mode keeps alpha at 1 and never loses velocity so the nodes drift forever. */
+const DATA_ALPHA_DECAY = 1 - Math.pow(0.001, 1 / 300);
+const DATA_VELOCITY_DECAY = 0.4;
+
+/* Pull of the data mode centering forces. d3.forceCenter translates positions directly, which
+  stepSimulation would undo (it rebuilds positions from velocities), so forceX / forceY are used. */
+const DATA_CENTER_STRENGTH = 0.04;
+
+/**
+ * What the engine does when the user asks for reduced motion (`prefers-reduced-motion: reduce`):
+ * - "static": draw a still frame that only reacts to the pointer (default)
+ * - "slow": keep animating at REDUCED_MOTION_SPEED
+ * - "ignore": animate at full speed anyway
+ */
+export type ReducedMotionBehavior = "static" | "slow" | "ignore";
+
+export type GraphEngineOptions = {
+  config?: Partial<GraphConfig>;
+  reducedMotion?: ReducedMotionBehavior;
+  /** Manual stepping: no frame loop, the simulation only advances through `step()` */
+  manual?: boolean;
+  /** Show this dataset (data mode) instead of generated nodes with proximity edges */
+  data?: GraphData | null;
+  /** Adaptive quality: node counts settled on earlier visits, the start count of their tier */
+  nodeCounts?: NodeCounts;
+  /** Adaptive quality: the node count has held the target frame rate for a while */
+  onNodeCountSettled?: (tier: NodeCountTier, nodeCount: number) => void;
+  /** The node under the pointer changed (null: none) */
+  onNodeHover?: (node: PickedNode | null) => void;
+  /** A node was clicked, selecting or releasing it; null when a click on empty space cleared it */
+  onNodeClick?: (node: PickedNode | null) => void;
+};
+
+// Helper: linear interpolation
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+/**
+ * GraphEngine
+ * - owns the animated graph: d3 force simulation, frame loop and pointer handling; drawing is done
+ *   by a GraphRenderer (Canvas2DRenderer or SvgRenderer, picked from the mounted element)
+ * - framework agnostic, the React `Graph` component is a thin wrapper around it
+ *
+ * Lifecycle:
+ *   const engine = new GraphEngine({ config });
+ *   engine.mount(canvas); // or an <svg>: measures it, generates nodes, attaches listeners (observeCanvas)
+ *   engine.start();       // runs the frame loop (paused automatically while hidden/offscreen)
+ *   engine.resize(w, h);  // container size changed: nodes are rescaled, never regenerated
+ *   engine.destroy();     // detaches everything
+ *
+ * Headless (no canvas, no browser APIs), e.g. for tests:
+ *   const engine = new GraphEngine({ config: { seed: 1 }, manual: true });
+ *   engine.resize(800, 600); // creates the nodes
+ *   engine.step(120);        // two seconds of simulated time
+ *   engine.getFrameModel();  // edges and opacities of the current state
+ *
+ * Adaptive quality (`config.adaptiveQuality`): the frame loop measures itself and fades nodes in
+ * or out to hold `targetFps` within [minNodes, maxNodes]. Settled counts are reported per tier
+ * (`onNodeCountSettled`) and passed back as `nodeCounts` to start there next time.
+ *
+ * Data mode (`data` option or setData): one node per GraphDataNode and the links of the dataset
+ * as edges, laid out by link, charge and center forces; the pointer fade becomes the optional
+ * `spotlight`.
+ *
+ * Picking: the node under the pointer (NodePicker, a quadtree) is highlighted with its edge
+ * neighbors while everything else dims (`onNodeHover`). A click selects and pins a node, a second
+ * click or one on empty space releases it (`onNodeClick`). On a focused canvas the arrow keys move
+ * the mouse node like a hovering pointer, Enter clicks under it and Escape releases (keyDown).
+ *
+ * In a worker (see graph.worker.ts) there is no DOM: the engine draws on a transferred
+ * OffscreenCanvas and the page forwards pointer input and environment changes to the
+ * GraphInputSink methods (pointerDown/Move/Up/Leave, setEnvironment).
+ */
+export class GraphEngine implements GraphInputSink, RecordingSource {
+  private config: GraphConfig;
+  private reducedMotion: ReducedMotionBehavior;
+  private readonly manual: boolean;
+
+  private element: HTMLCanvasElement | SVGSVGElement | null = null; // mounted on the main thread
+  private renderer: GraphRenderer | null = null;
+  private detachInput: (() => void) | null = null;
+  private width = 1;
+  private height = 1;
+  private dpr = 1;
+
+  /* Every random draw (positions, velocities, radii, colors) goes through the seeded generator,
+    so a seed fully determines the layout for a given canvas size. */
+  private seed: number | null = null;
+  private random: RandomSource = Math.random;
+
+  private nodes: Node[] = [];
+  private mouseNode: Node;
+  private simulation: d3.Simulation<Node, undefined> | null = null;
+  private data: GraphData | null = null;
+  private links: DataLink[] = []; // data mode: resolved to node objects by d3.forceLink
+  private grid = new SpatialGrid(); // edge lookup grid, reused every frame
+
+  // Adaptive quality state
+  private governor = new QualityGovernor();
+  private nodeCounts: NodeCounts; // current count per tier, starts from the settled ones
+  private leavingNodes = new Set<Node>(); // fading out, removed once invisible
+  private onNodeCountSettled: ((tier: NodeCountTier, nodeCount: number) => void) | null;
+
+  // Frame loop state
+  private running = false;
+  private frameId: number | null = null;
+  private lastFrameTime: number | null = null;
+  private transition: ConfigTransition | null = null; // config cross-fade in progress
+  private stats: StatsMeter | null = null; // only measures while someone listens
+  private drawTimings = { edgesMs: 0, drawMs: 0, edgeCount: 0 }; // of the last draw()
+
+  // Motion state: the loop only runs while started, the page is shown, the graph is in view and
+  // reduced motion does not ask for a still frame
+  private pageVisible = true;
+  private inViewport = true;
+  private prefersReducedMotion = false;
+  private timeScale = 1;
+
+  // Pointer handling state
+  private isDragging = false;
+
+  // Picking state: hover follows the mouse node, the selection is pinned until released
+  private picker = new NodePicker(); // positions of the regular nodes, rebuilt after they move
+  private hovered: Node | null = null;
+  private selected: Node | null = null;
+  private selectionPin: { vx: number; vy: number } | null = null; // velocity before the pin
+  private press: { x: number; y: number; node: Node | null } | null = null; // a possible click
+  private onNodeHover: ((node: PickedNode | null) => void) | null;
+  private onNodeClick: ((node: PickedNode | null) => void) | null;
+
+  /* Multi-touch: the primary pointer drives the mouse node, every further finger gets its own
+    touch node (ids -2, -3, ...) that fades in on pointerdown and out after pointerup. */
+  private touches = new Map<number, Node>(); // by pointerId
+  private fadingTouchNodes: Node[] = []; // lifted fingers, removed once faded out
+  private nextTouchId = -2;
+
+  constructor(options: GraphEngineOptions = {}) {
+    this.config = resolveGraphConfig(options.config);
+    this.reducedMotion = options.reducedMotion ?? "static";
+    this.manual = options.manual ?? false;
+    this.nodeCounts = { ...options.nodeCounts };
+    this.onNodeCountSettled = options.onNodeCountSettled ?? null;
+    this.onNodeHover = options.onNodeHover ?? null;
+    this.onNodeClick = options.onNodeClick ?? null;
+    if (options.data) {
+      validateGraphData(options.data);
+      this.data = options.data;
+    }
+    this.mouseNode = createMouseNode(0, 0, this.config);
+  }
+
+  /**
+   * Attach to a <canvas> (drawn with Canvas2DRenderer) or an <svg> (SvgRenderer): measure it, size
+   * the drawing buffer, generate nodes and listen for input
+   */
+  mount(surface: HTMLCanvasElement | SVGSVGElement) {
+    if (this.renderer) this.destroy();
+    this.element = surface;
+
+    const rect = surface.getBoundingClientRect();
+    // Hi-DPI scaling
+    const dpr = window.devicePixelRatio || 1; //Measure the device pixel ratio defined as number of pixels per CSS pixel
+    const renderer = surface instanceof SVGSVGElement
+      ? new SvgRenderer(surface)
+      : new Canvas2DRenderer(surface, surface.getContext("2d")!);
+    this.attach(renderer, rect.width, rect.height, dpr);
+
+    // Attach listeners; observeCanvas also reports visibility, viewport and reduced motion
+    this.detachInput = observeCanvas(surface, this);
+
+    // initial draw
+    this.draw();
+    this.updateMotion();
+  }
+
+  /**
+   * Attach to a canvas transferred to a worker (`transferControlToOffscreen`). Nothing is
+   * measured or observed here: the page reports size, input and environment by message.
+   */
+  mountOffscreen(canvas: OffscreenCanvas, width: number, height: number, dpr: number) {
+    if (this.renderer) this.destroy();
+    const renderer = new Canvas2DRenderer(canvas, canvas.getContext("2d")!);
+    this.attach(renderer, width, height, dpr);
+    this.draw();
+    this.updateMotion();
+  }
+
+  /**
+   * Container resize: keep every node, rescale positions into the new bounds and add or remove
+   * nodes to reach the node count of the new width. Without arguments the canvas is measured.
+   */
+  resize(nextWidth?: number, nextHeight?: number) {
+    if (nextWidth == null || nextHeight == null) {
+      if (!this.element) return;
+      const rect = this.element.getBoundingClientRect();
+      nextWidth = rect.width;
+      nextHeight = rect.height;
+    }
+    if (!this.simulation) {
+      // headless: the first size creates the nodes
+      this.initialize(nextWidth, nextHeight);
+      return;
+    }
+    nextWidth = Math.max(1, Math.floor(nextWidth));
+    nextHeight = Math.max(1, Math.floor(nextHeight));
+    if (nextWidth === this.width && nextHeight === this.height) return;
+
+    // nodes on their way out are dropped right away, the count is recomputed anyway
+    const regular = this.nodes.filter((n) => n.id >= 0 && !this.leavingNodes.has(n));
+    this.leavingNodes.clear();
+    if (getNodeCountTier(nextWidth) !== getNodeCountTier(this.width)) this.governor.reset();
+    const resized = resizeNodes(
+      regular,
+      this.width,
+      this.height,
+      nextWidth,
+      nextHeight,
+      // a dataset keeps its nodes whatever the width
+      this.data ? regular.length : this.getTargetNodeCount(nextWidth),
+      this.config,
+      this.random
+    );
+    this.width = nextWidth;
+    this.height = nextHeight;
+    for (const n of this.getInteractionNodes()) {
+      n.x = Math.max(0, Math.min(n.x ?? 0, this.width));
+      n.y = Math.max(0, Math.min(n.y ?? 0, this.height));
+      if (n.fx != null) n.fx = n.x;
+      if (n.fy != null) n.fy = n.y;
+    }
+
+    this.setNodes(resized);
+    this.configureForces();
+    this.resizeRenderer();
+    this.draw();
+  }
+
+  /** Start the frame loop. It still pauses by itself while hidden, offscreen or static. */
+  start() {
+    this.running = true;
+    this.updateMotion();
+  }
+
+  /** Stop the frame loop; the last frame stays on the canvas */
+  stop() {
+    this.running = false;
+    this.updateMotion();
+  }
+
+  /** Whether the frame loop was started, even while it is paused by itself */
+  isRunning() {
+    return this.running;
+  }
+
+  /**
+   * Replace the config overrides. Changes apply to the running simulation in place; only a new
+   * `seed` regenerates the nodes. With `transitionMs` a running graph cross-fades to the new
+   * config (numbers, background and edge color, node colors and radii) instead of switching.
+   */
+  setConfig(overrides: Partial<GraphConfig> = {}, transitionMs = 0) {
+    // a cross-fade starts from what is on screen, the change itself compares with its target
+    const current = this.config;
+    const before = transitionMs > 0 && this.frameId != null ? captureLooks(this.nodes) : null;
+    this.finishTransition();
+    const prev = this.config;
+    const next = resolveGraphConfig(overrides);
+    this.config = next;
+    if (!this.simulation) return;
+
+    if (next.seed != null && next.seed !== prev.seed) {
+      // a new seed asks for a new layout
+      this.reseed(next.seed);
+    } else if (this.data) {
+      // data nodes take radius and color from the dataset, only interaction nodes are re-rolled
+      applyConfigChange(this.getInteractionNodes(), prev, next, this.random);
+      styleDataNodes(this.nodes, this.data, next);
+    } else {
+      applyConfigChange(this.nodes, prev, next, this.random);
+      const countChanged = prev.nodeCount !== next.nodeCount ||
+        prev.adaptiveQuality !== next.adaptiveQuality ||
+        prev.minNodes !== next.minNodes || prev.maxNodes !== next.maxNodes;
+      if (countChanged) {
+        this.governor.reset();
+        this.fadeToNodeCount(this.getTargetNodeCount(this.width));
+        // without a frame loop nothing would finish the fades
+        if (this.frameId == null) this.updateQualityFades(Infinity);
+      }
+    }
+    if (before) {
+      this.transition = new ConfigTransition(current, next, before, transitionMs);
+      this.config = this.transition.advance(0);
+    }
+    this.configureForces();
+    if (this.frameId == null) this.draw();
+  }
+
+  /**
+   * Show a dataset (data mode), or generated nodes again with null. The nodes are replaced and
+   * the layout starts over; throws if node ids repeat or a link names an unknown node.
+   */
+  setData(data: GraphData | null) {
+    if (data) validateGraphData(data);
+    this.data = data;
+    if (!this.simulation) return;
+    this.resetQuality();
+    this.setNodes(this.createNodes());
+    this.configureForces();
+    this.simulation.alpha(1);
+    if (this.frameId == null) this.draw();
+  }
+
+  /**
+   * Advance the simulation by `count` fixed steps of `dtMs` each, regardless of the frame loop,
+   * and redraw once (if mounted). This is the only way time passes in manual mode.
+   */
+  step(count = 1, dtMs = 1000 / REFERENCE_FPS) {
+    if (!this.simulation) return;
+    for (let i = 0; i < count; i++) {
+      this.advance(dtMs);
+      this.updateTouchFades(dtMs);
+    }
+    this.draw();
+  }
+
+  /** The current frame as a standalone SVG document (see frameToSvg), also without a renderer */
+  toSvg(): string {
+    return frameToSvg(this.getFrameModel(), this.config);
+  }
+
+  /** Pixel size of a capture with these options (see CaptureOptions) */
+  getCaptureSize(options: CaptureOptions = {}) {
+    return resolveCaptureSize(options, this.width, this.height, this.dpr);
+  }
+
+  /** PNG of the current frame, rendered at the requested size instead of the on-screen one */
+  captureFrame(options: CaptureOptions = {}): Promise<Blob> {
+    const { width, height } = this.getCaptureSize(options);
+    const { canvas, ctx } = createExportCanvas(width, height);
+    drawExportFrame(ctx, this.getFrameModel(), this.config, width, height);
+    return canvasToPng(canvas);
+  }
+
+  /**
+   * Advance by exactly `dtMs` and paint the new frame into `ctx` (`width` × `height` px). Used by
+   * captureSequence and GraphRecorder, which render offline at a fixed timestep.
+   */
+  recordFrame(ctx: DrawingContext, width: number, height: number, dtMs: number) {
+    this.step(1, dtMs);
+    drawExportFrame(ctx, this.getFrameModel(), this.config, width, height);
+  }
+
+  /** The current nodes, config and seed as versioned JSON (see GraphSnapshot) */
+  getSnapshot(): GraphSnapshot {
+    const nodes = this.nodes.filter((n) => !this.leavingNodes.has(n));
+    return createSnapshot(nodes, this.config, this.width, this.height, this.seed);
+  }
+
+  /**
+   * Replace the nodes, config and seed with those of a snapshot, rescaled to the current size.
+   * The input is validated first: a malformed or outdated snapshot throws GraphSnapshotError and
+   * leaves the graph untouched. The snapshot config stays active until the next setConfig().
+   */
+  loadSnapshot(input: GraphSnapshot | string) {
+    const snapshot = parseSnapshot(input);
+    // a cross-fade in progress would blend the old look back over the loaded config
+    this.finishTransition();
+    const prev = this.config;
+    this.config = snapshot.config;
+    // headless and not sized yet: take the size of the snapshot
+    if (!this.simulation) this.initialize(snapshot.width, snapshot.height);
+
+    this.seed = snapshot.seed;
+    this.random = createRandom(snapshot.seed ?? randomSeed());
+    applyConfigChange(this.getInteractionNodes(), prev, this.config, this.random);
+    this.resetQuality();
+    this.setNodes(restoreNodes(snapshot, this.width, this.height));
+    this.configureForces();
+    if (this.frameId == null) this.draw();
+  }
+
+  /** Edges and opacities of the current state, exactly what the next draw would render */
+  getFrameModel(): FrameModel {
+    return computeFrameModel(
+      this.nodes, this.getInteractionNodes(), this.config, this.width, this.height, this.grid,
+      this.data ? this.links : null, this.hovered ?? this.selected
+    );
+  }
+
+  /**
+   * All simulated nodes; the interaction nodes come last: the mouse node (id -1), then one touch
+   * node per further finger (ids -2, -3, ...)
+   */
+  getNodes(): readonly Node[] {
+    return this.nodes;
+  }
+
+  /** Pin the mouse node at (x, y) canvas coordinates, as a hovering pointer would */
+  setPointer(x: number, y: number) {
+    this.mouseNode.x = this.mouseNode.fx = x;
+    this.mouseNode.y = this.mouseNode.fy = y;
+    if (this.frameId == null) this.draw();
+  }
+
+  /** Unpin the mouse node, as when the pointer leaves the window */
+  releasePointer() {
+    this.mouseNode.fx = null;
+    this.mouseNode.fy = null;
+  }
+
+  /** Pointer pressed: the primary pointer drags the mouse node, further fingers get a touch node */
+  pointerDown(input: PointerInput) {
+    // further fingers get their own touch node
+    if (!input.isPrimary) {
+      this.addTouch(input);
+      return;
+    }
+    this.isDragging = true;
+    this.press = { x: input.x, y: input.y, node: this.pickNode(input.x, input.y) };
+    // make simulation responsive while dragging
+    this.simulation?.alphaTarget(0.1);
+    this.pointerMove(input);
+  }
+
+  /** Pointer moved; expected at most once per pointer and frame (observeCanvas batches them) */
+  pointerMove(input: PointerInput) {
+    const { x: cx, y: cy } = input;
+    const { dragLerp } = this.config;
+
+    if (!input.isPrimary) {
+      // further fingers only move their own touch node, which is always dragged
+      const node = this.touches.get(input.pointerId);
+      if (!node) return;
+      node.x = node.fx = lerp(node.x ?? cx, cx, dragLerp);
+      node.y = node.fy = lerp(node.y ?? cy, cy, dragLerp);
+    } else if (this.isDragging) {
+      const { mouseNode } = this;
+      // Smooth the drag motion for touch by lerping toward the pointer
+      //!zzz How does lerp and screen refreshes work with each other?
+      mouseNode.x = lerp(mouseNode.x ?? cx, cx, dragLerp);
+      mouseNode.y = lerp(mouseNode.y ?? cy, cy, dragLerp);
+      mouseNode.fx = mouseNode.x;
+      mouseNode.fy = mouseNode.y;
+    } else {
+      const { mouseNode } = this;
+      // Hover behavior: immediate follow (keeps node pinned to pointer)
+      mouseNode.x = cx;
+      mouseNode.y = cy;
+      mouseNode.fx = cx;
+      mouseNode.fy = cy;
+    }
+
+    /* a drag nudges the simulation so a data layout follows the dragged node at once; hovering
+      leaves it alone, or the layout could never settle under the pointer */
+    const { simulation } = this;
+    if (simulation && (this.isDragging || !input.isPrimary)) {
+      simulation.alpha(Math.max(simulation.alpha(), 0.1));
+    }
+    this.updateHover();
+
+    // a still frame (reduced motion) is only redrawn when the pointer moves
+    this.redrawIfStill();
+  }
+
+  /** Pointer released or cancelled */
+  pointerUp(input: PointerInput) {
+    if (!input.isPrimary) {
+      this.releaseTouch(input.pointerId);
+      return;
+    }
+    this.isDragging = false;
+    // allow simulation to settle
+    this.simulation?.alphaTarget(0);
+
+    const press = this.press;
+    this.press = null;
+    if (press && Math.hypot(input.x - press.x, input.y - press.y) <= CLICK_SLOP) {
+      this.click(press.node);
+    }
+  }
+
+  /**
+   * Keyboard on the focused canvas: the arrows move the mouse node as a hovering pointer would,
+   * Enter clicks the node under it, Escape releases the selection, or else the mouse node
+   */
+  keyDown(input: KeyInput) {
+    const { mouseNode } = this;
+    if (input.key === "Enter") {
+      this.click(this.hovered);
+      return;
+    }
+    if (input.key === "Escape") {
+      if (this.selected) this.click(null);
+      else this.pointerLeave();
+      return;
+    }
+    const step = input.fast ? KEY_STEP_FAST : KEY_STEP;
+    const dx = input.key === "ArrowLeft" ? -step : input.key === "ArrowRight" ? step : 0;
+    const dy = input.key === "ArrowUp" ? -step : input.key === "ArrowDown" ? step : 0;
+    // the first key starts where the mouse node is, the center until a pointer moved it
+    this.pointerMove({
+      pointerId: -1,
+      isPrimary: true,
+      x: Math.max(0, Math.min(this.width, (mouseNode.fx ?? mouseNode.x ?? 0) + dx)),
+      y: Math.max(0, Math.min(this.height, (mouseNode.fy ?? mouseNode.y ?? 0) + dy)),
+    });
+  }
+
+  /** The pointer left the window: unpin so nodes can drift */
+  pointerLeave() {
+    if (this.isDragging) return;
+    this.releasePointer();
+    this.updateHover();
+    this.redrawIfStill();
+  }
+
+  /**
+   * Page state reported by observeCanvas (or forwarded to a worker): the loop pauses while the
+   * page is hidden or the canvas is out of view, and a new pixel ratio only rescales the backing
+   * store
+   */
+  setEnvironment(state: Partial<EnvironmentState>) {
+    if (state.pageVisible != null) this.pageVisible = state.pageVisible;
+    if (state.inViewport != null) this.inViewport = state.inViewport;
+    if (state.prefersReducedMotion != null) this.prefersReducedMotion = state.prefersReducedMotion;
+    if (state.devicePixelRatio != null && state.devicePixelRatio !== this.dpr) {
+      this.dpr = state.devicePixelRatio;
+      this.resizeRenderer();
+      this.draw();
+    }
+    this.updateMotion();
+  }
+
+  setReducedMotion(behavior: ReducedMotionBehavior) {
+    this.reducedMotion = behavior;
+    this.updateMotion();
+  }
+
+  getConfig(): GraphConfig {
+    return this.config;
+  }
+
+  /** Seed of the current layout (null before mount). Pass it as `config.seed` to recreate it. */
+  getSeed(): number | null {
+    return this.seed;
+  }
+
+  /**
+   * Report frame loop performance (GraphStats) to `listener` a few times per second, null stops
+   * measuring. Only running frames are measured: a paused or still graph reports nothing.
+   */
+  setStatsListener(listener: ((stats: GraphStats) => void) | null) {
+    this.stats = listener ? new StatsMeter(listener) : null;
+  }
+
+  /** Stop everything and detach from the canvas. The engine can be mounted again afterwards. */
+  destroy() {
+    this.running = false;
+    if (this.frameId != null) cancelAnimationFrame(this.frameId);
+    this.frameId = null;
+    this.finishTransition();
+    this.simulation?.stop();
+    this.simulation = null;
+
+    this.detachInput?.();
+    this.detachInput = null;
+
+    this.isDragging = false;
+    this.press = null;
+    this.setHovered(null);
+    this.releaseSelection();
+    this.touches.clear();
+    this.fadingTouchNodes = [];
+    this.renderer?.destroy();
+    this.renderer = null;
+    this.element = null;
+  }
+
+  // shared by both mounts: create or fit the nodes, then size the renderer
+  private attach(renderer: GraphRenderer, width: number, height: number, dpr: number) {
+    this.renderer = renderer;
+    if (this.simulation) {
+      // created headless before: keep the nodes and fit them to the canvas
+      this.resize(width, height);
+    } else {
+      this.initialize(width, height);
+    }
+    this.dpr = dpr;
+    this.resizeRenderer();
+  }
+
+  // first size: seed the generator, generate nodes inside the bounds and create the simulation
+  private initialize(width: number, height: number) {
+    this.width = Math.max(1, Math.floor(width));
+    this.height = Math.max(1, Math.floor(height));
+
+    this.seed = this.config.seed ?? randomSeed();
+    this.random = createRandom(this.seed);
+    this.mouseNode = createMouseNode(this.width / 2, this.height / 2, this.config);
+    // append mouse node to nodes array so it participates in edges
+    this.nodes = [...this.createNodes(), this.mouseNode];
+
+    // Create simulation
+    // Each method is defined to return this (the simulation instance).
+    /* The simulation is created stopped: instead of d3's internal timer (one fixed step per display
+      frame) the frame loop advances it by the real elapsed time, see stepSimulation. */
+    this.simulation = d3.forceSimulation(this.nodes)
+      .force("charge", d3.forceManyBody<Node>())
+      .force("link", d3.forceLink<Node, DataLink>([])
+        .id((n) => n.id)
+        .strength((l) => l.strength))
+      .force("centerX", d3.forceX<Node>())
+      .force("centerY", d3.forceY<Node>())
+      .force("pointer", forcePointer(this.getPointerSamples, () => ({
+        mode: this.config.pointerForce,
+        pressMode: this.config.pointerPressForce,
+        strength: this.config.pointerForceStrength,
+        radius: this.config.pointerForceRadius,
+        // initial velocities are up to `speed` per axis; data mode has velocity decay instead
+        cruiseSpeed: this.data ? Infinity : this.config.speed * Math.SQRT2,
+      })))
+      .force("boundary", forceSoftBoundary(
+        () => ({ width: this.width, height: this.height }),
+        () => ({
+          mode: this.config.boundary,
+          margin: this.config.boundaryMargin,
+          strength: this.config.boundaryStrength,
+        })
+      ))
+      .alpha(1)
+      .stop();
+    this.configureForces();
+    this.setNodes(this.nodes.filter((n) => n.id >= 0));
+  }
+
+  /* Forces that depend on the mode, the config or the size: charge, links and center only act in
+    data mode, where the layout also settles (alpha and velocity decay) */
+  private configureForces() {
+    const simulation = this.simulation;
+    if (!simulation) return;
+    const { data, config } = this;
+
+    const charge = simulation.force("charge") as d3.ForceManyBody<Node>;
+    charge.strength((n) => (data && n.id >= 0 ? config.chargeStrength : 0));
+
+    const link = simulation.force("link") as d3.ForceLink<Node, DataLink>;
+    link.distance(config.linkDistance);
+
+    const centerStrength = (n: Node) => (data && n.id >= 0 ? DATA_CENTER_STRENGTH : 0);
+    (simulation.force("centerX") as d3.ForceX<Node>).x(this.width / 2).strength(centerStrength);
+    (simulation.force("centerY") as d3.ForceY<Node>).y(this.height / 2).strength(centerStrength);
+    simulation
+      .alphaDecay(data ? DATA_ALPHA_DECAY : 0)
+      .velocityDecay(data ? DATA_VELOCITY_DECAY : 0);
+    if (!data) simulation.alpha(1);
+  }
+
+  // the mouse pointer is present while the mouse node is pinned to it; held fingers always are
+  private getPointerSamples = (): PointerSample[] => {
+    const { mouseNode } = this;
+    const samples: PointerSample[] = [];
+    if (mouseNode.fx != null && mouseNode.fy != null) {
+      samples.push({ x: mouseNode.fx, y: mouseNode.fy, pressed: this.isDragging });
+    }
+    for (const node of this.touches.values()) {
+      samples.push({ x: node.x ?? 0, y: node.y ?? 0, pressed: true });
+    }
+    return samples;
+  };
+
+  // mouse node first, then held and fading touch nodes
+  private getInteractionNodes(): Node[] {
+    return [this.mouseNode, ...this.touches.values(), ...this.fadingTouchNodes];
+  }
+
+  private createNodes(): Node[] {
+    if (this.data) {
+      return createDataNodes(this.data, this.width, this.height, this.config, this.random);
+    }
+    return generateNodes(
+      this.getTargetNodeCount(this.width), this.width, this.height, this.config, this.random
+    );
+  }
+
+  /* nodes for a width: a fixed `nodeCount`, else the breakpoint count, or with adaptive quality
+    the count of the tier */
+  private getTargetNodeCount(width: number) {
+    if (this.config.nodeCount != null) return Math.max(0, Math.round(this.config.nodeCount));
+    if (!this.config.adaptiveQuality) return getNodeCountForWidth(width);
+    const tier = getNodeCountTier(width);
+    const { minNodes, maxNodes } = this.config;
+    const count = this.nodeCounts[tier] ?? NODE_COUNT_BY_TIER[tier];
+    return Math.max(minNodes, Math.min(maxNodes, Math.round(count)));
+  }
+
+  /* Fade new nodes in or surplus ones out until `count` regular nodes remain. The newest nodes
+    leave first, so a shrink followed by a grow keeps the long-lived ones. */
+  private fadeToNodeCount(count: number) {
+    const staying = this.nodes.filter((n) => n.id >= 0 && !this.leavingNodes.has(n));
+    if (count < staying.length) {
+      for (const node of staying.slice(count)) this.leavingNodes.add(node);
+      return;
+    }
+    const nextId = this.nodes.reduce((max, n) => Math.max(max, n.id), -1) + 1;
+    const added = generateNodes(
+      count - staying.length, this.width, this.height, this.config, this.random, nextId
+    );
+    for (const node of added) node.fade = 0;
+    this.setNodes([...this.nodes.filter((n) => n.id >= 0), ...added]);
+  }
+
+  // nodes are replaced wholesale: measure from scratch
+  private resetQuality() {
+    this.governor.reset();
+    this.leavingNodes.clear();
+  }
+
+  // one frame of adaptive quality: measure, then grow or shrink the regular nodes
+  private updateQuality(frameMs: number, workMs: number) {
+    const { adaptiveQuality, nodeCount } = this.config;
+    if (!adaptiveQuality || nodeCount != null || this.data || frameMs <= 0) return;
+    const count = this.nodes.filter((n) => n.id >= 0 && !this.leavingNodes.has(n)).length;
+    const decision = this.governor.sample(frameMs, workMs, count, this.config);
+    if (!decision) return;
+    const tier = getNodeCountTier(this.width);
+    this.nodeCounts[tier] = decision.nodeCount;
+    if (decision.settled) this.onNodeCountSettled?.(tier, decision.nodeCount);
+    else this.fadeToNodeCount(decision.nodeCount);
+  }
+
+  // fade adaptive quality nodes in and out; faded out nodes leave the simulation
+  private updateQualityFades(dtMs: number) {
+    const delta = dtMs / QUALITY_FADE_MS;
+    const faded = new Set<Node>();
+    for (const node of this.nodes) {
+      if (node.id < 0) continue;
+      if (this.leavingNodes.has(node)) {
+        node.fade = Math.max(0, (node.fade ?? 1) - delta);
+        if (node.fade === 0) faded.add(node);
+      } else if (node.fade != null) {
+        node.fade = Math.min(1, node.fade + delta);
+        if (node.fade === 1) delete node.fade;
+      }
+    }
+    if (faded.size === 0) return;
+    for (const node of faded) this.leavingNodes.delete(node);
+    this.setNodes(this.nodes.filter((n) => n.id >= 0 && !faded.has(n)));
+  }
+
+  // replace the regular nodes; the interaction nodes always stay last
+  private setNodes(nodes: Node[]) {
+    this.nodes = [...nodes, ...this.getInteractionNodes()];
+    this.picker.invalidate();
+    // a hovered or selected node that left is let go
+    const present = new Set(nodes);
+    if (this.selected && !present.has(this.selected)) this.releaseSelection();
+    if (this.hovered && !present.has(this.hovered)) this.setHovered(null);
+    if (!this.simulation) return;
+    this.simulation.nodes(this.nodes);
+    // fresh links for the new nodes (forceLink resolves ids only once)
+    this.links = this.data ? createDataLinks(this.data, this.nodes) : [];
+    (this.simulation.force("link") as d3.ForceLink<Node, DataLink>).links(this.links);
+  }
+
+  // New seed: regenerate every node from it, the simulation and canvas are kept
+  private reseed(seed: number) {
+    this.seed = seed;
+    this.random = createRandom(seed);
+    this.resetQuality();
+    this.setNodes(this.createNodes());
+  }
+
+  private resizeRenderer() {
+    this.renderer?.resize(this.width, this.height, this.dpr);
+  }
+
+  private updateMotion() {
+    const behavior = this.prefersReducedMotion ? this.reducedMotion : "ignore";
+    this.timeScale = behavior === "static" ? 0 : behavior === "slow" ? REDUCED_MOTION_SPEED : 1;
+
+    const shouldRun = !this.manual && this.running && !!this.simulation &&
+      this.pageVisible && this.inViewport && this.timeScale > 0;
+    if (shouldRun && this.frameId == null) {
+      // forget the last timestamp so the pause is not integrated as one long frame
+      this.lastFrameTime = null;
+      this.frameId = requestAnimationFrame(this.frame);
+    } else if (!shouldRun && this.frameId != null) {
+      cancelAnimationFrame(this.frameId);
+      this.frameId = null;
+      // a paused graph shows the final look, not a frozen blend
+      this.finishTransition();
+    }
+  }
+
+  private finishTransition() {
+    if (!this.transition) return;
+    this.config = this.transition.advance(Infinity);
+    this.transition = null;
+    this.configureForces();
+  }
+
+  private frame = (now: number) => {
+    const dt = this.lastFrameTime == null ? 0 : now - this.lastFrameTime;
+    this.lastFrameTime = now;
+    if (this.transition) {
+      this.config = this.transition.advance(dt);
+      if (this.transition.done) this.transition = null;
+      this.configureForces();
+    }
+    const tickStart = performance.now();
+    this.advance(dt * this.timeScale);
+    const tickMs = performance.now() - tickStart;
+    // touch feedback fades in real time, even when the simulation is slowed down
+    this.updateTouchFades(dt);
+    this.updateQualityFades(dt);
+    // nodes drift under a resting pointer
+    this.updateHover();
+    this.draw();
+    this.updateQuality(dt, tickMs + this.drawTimings.edgesMs + this.drawTimings.drawMs);
+    this.stats?.record({ frameMs: dt, tickMs, ...this.drawTimings }, now, () => ({
+      nodeCount: this.nodes.filter((n) => n.id >= 0).length,
+      edgeCount: this.drawTimings.edgeCount,
+      tier: this.data ? null : getNodeCountTier(this.width),
+    }));
+    this.frameId = requestAnimationFrame(this.frame);
+  };
+
+  // one simulation step of `dtMs` real time
+  private advance(dtMs: number) {
+    if (!this.simulation) return;
+    stepSimulation(this.simulation, dtMs);
+    this.ticked();
+    this.picker.invalidate();
+  }
+
+  // Tick handler: runs after every simulation step, applies the boundary mode using current
+  // width/height
+  private ticked() {
+    applyBoundary(
+      this.config.boundary, this.nodes, this.width, this.height, this.config.speed, this.random
+    );
+  }
+
+  private draw() {
+    if (!this.renderer) return;
+    const start = performance.now();
+    const frame = this.getFrameModel();
+    const built = performance.now();
+    this.renderer.render(frame, this.config);
+    this.drawTimings = {
+      edgesMs: built - start,
+      drawMs: performance.now() - built,
+      edgeCount: frame.edges.length,
+    };
+  }
+
+  // fade touch nodes in while held and out once lifted; faded out nodes leave the simulation
+  private updateTouchFades(dtMs: number) {
+    const delta = dtMs / TOUCH_FADE_MS;
+    for (const node of this.touches.values()) node.fade = Math.min(1, (node.fade ?? 1) + delta);
+    if (this.fadingTouchNodes.length === 0) return;
+
+    for (const node of this.fadingTouchNodes) node.fade = Math.max(0, (node.fade ?? 1) - delta);
+    const remaining = this.fadingTouchNodes.filter((n) => (n.fade ?? 0) > 0);
+    if (remaining.length !== this.fadingTouchNodes.length) {
+      this.fadingTouchNodes = remaining;
+      this.setNodes(this.nodes.filter((n) => n.id >= 0));
+    }
+  }
+
+  // a still frame (reduced motion) only changes on input: settle the fades and redraw
+  private redrawIfStill() {
+    if (this.frameId != null) return;
+    this.updateTouchFades(Infinity);
+    if (this.pageVisible && this.inViewport) this.draw();
+  }
+
+  // the regular node at (x, y), leaving nodes excluded
+  private pickNode(x: number, y: number): Node | null {
+    if (this.picker.stale) {
+      this.picker.rebuild(this.nodes.filter((n) => n.id >= 0 && !this.leavingNodes.has(n)));
+    }
+    return this.picker.find(x, y);
+  }
+
+  // hover follows the mouse node while it is pinned to the pointer
+  private updateHover() {
+    const { fx, fy } = this.mouseNode;
+    this.setHovered(fx != null && fy != null ? this.pickNode(fx, fy) : null);
+  }
+
+  private setHovered(node: Node | null) {
+    if (node === this.hovered) return;
+    this.hovered = node;
+    this.onNodeHover?.(node ? toPickedNode(node, node === this.selected) : null);
+  }
+
+  // a click selects and pins a node, or releases the selected one; empty space clears the selection
+  private click(node: Node | null) {
+    const previous = this.selected;
+    if (!node && !previous) return;
+    this.releaseSelection();
+    if (node && node !== previous) {
+      this.selected = node;
+      // a node pinned before (e.g. by a snapshot) stays pinned when it is released
+      if (node.fx == null || node.fy == null) {
+        this.selectionPin = { vx: node.vx ?? 0, vy: node.vy ?? 0 };
+        node.fx = node.x;
+        node.fy = node.y;
+      }
+    }
+    this.onNodeClick?.(node ? toPickedNode(node, node === this.selected) : null);
+    this.redrawIfStill();
+  }
+
+  // unpin the selected node if the selection pinned it; it drifts on with its earlier velocity
+  private releaseSelection() {
+    const node = this.selected;
+    if (!node) return;
+    if (this.selectionPin) {
+      node.fx = null;
+      node.fy = null;
+      node.vx = this.selectionPin.vx;
+      node.vy = this.selectionPin.vy;
+    }
+    this.selected = null;
+    this.selectionPin = null;
+  }
+
+  // a further finger touched down: pin a new touch node under it, fading in from 0
+  private addTouch(input: PointerInput) {
+    if (!this.simulation || this.touches.has(input.pointerId)) return;
+    const node = createMouseNode(input.x, input.y, this.config, this.nextTouchId--);
+    node.fx = input.x;
+    node.fy = input.y;
+    node.fade = 0;
+    this.touches.set(input.pointerId, node);
+    this.setNodes(this.nodes.filter((n) => n.id >= 0));
+    this.redrawIfStill();
+  }
+
+  // a further finger lifted: its touch node stays where it was and fades out
+  private releaseTouch(pointerId: number) {
+    const node = this.touches.get(pointerId);
+    if (!node) return;
+    this.touches.delete(pointerId);
+    this.fadingTouchNodes.push(node);
+    this.redrawIfStill();
+  }
+}
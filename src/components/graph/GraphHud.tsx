@@ -0,0 +1,95 @@
+import { Box } from '@mui/material';
+import { useEffect, useRef } from 'react';
+import { STATS_WINDOW, type GraphStats } from './stats.ts';
+
+// chart size in CSS px; one bar per frame of the rolling window
+const CHART_WIDTH = STATS_WINDOW;
+const CHART_HEIGHT = 40;
+const CHART_MAX_MS = 50; // taller frames are clipped
+const BUDGET_MS = 1000 / 60; // a 60 fps frame, drawn as the reference line
+
+type GraphHudProps = {
+  stats: GraphStats | null; // null until the first report
+};
+
+/**
+ * GraphHud — debug overlay for Graph (`hud` prop or Alt+Shift+H):
+ * - FPS, per-frame timings of tick, edge building and drawing, node and edge counts and the
+ *   node count tier
+ * - a rolling frame-time chart against the 60 fps line; frames half again over it are red
+ * - ignores the pointer, so the graph underneath stays interactive
+ */
+export default function GraphHud({ stats }: GraphHudProps) {
+  const chartRef = useRef<HTMLCanvasElement | null>(null);
+
+  useEffect(() => {
+    const canvas = chartRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    if (canvas.width !== CHART_WIDTH * dpr) {
+      canvas.width = CHART_WIDTH * dpr;
+      canvas.height = CHART_HEIGHT * dpr;
+    }
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    drawFrameTimes(ctx, stats?.frameTimes ?? []);
+  }, [stats]);
+
+  const ms = (value: number | undefined) => (value == null ? "–" : value.toFixed(2));
+  const rows: [string, string][] = [
+    ["fps", stats ? stats.fps.toFixed(1) : "–"],
+    ["tick ms", ms(stats?.tickMs)],
+    ["edges ms", ms(stats?.edgesMs)],
+    ["draw ms", ms(stats?.drawMs)],
+    ["nodes", String(stats?.nodeCount ?? "–")],
+    ["edges", String(stats?.edgeCount ?? "–")],
+    ["tier", stats ? stats.tier ?? "data" : "–"],
+  ];
+
+  return (
+    <Box
+      aria-hidden
+      sx={{
+        backgroundColor: "rgba(0, 0, 0, 0.7)",
+        borderRadius: 1,
+        color: "#fff",
+        fontFamily: "monospace",
+        fontSize: 12,
+        left: 8,
+        lineHeight: 1.5,
+        p: 1,
+        pointerEvents: "none",
+        position: "absolute",
+        top: 8,
+        zIndex: 1
+      }}
+    >
+      {rows.map(([label, value]) => (
+        <Box key={label} sx={{ display: "flex", gap: 2, justifyContent: "space-between" }}>
+          <span>{label}</span>
+          <span>{value}</span>
+        </Box>
+      ))}
+      <canvas
+        ref={chartRef}
+        style={{ display: "block", height: CHART_HEIGHT, marginTop: 4, width: CHART_WIDTH }}
+      />
+    </Box>
+  );
+}
+
+// bars of the frame times, newest on the right, with the 60 fps budget as a line
+function drawFrameTimes(ctx: CanvasRenderingContext2D, frameTimes: number[]) {
+  ctx.clearRect(0, 0, CHART_WIDTH, CHART_HEIGHT);
+  const toHeight = (ms: number) => (Math.min(ms, CHART_MAX_MS) / CHART_MAX_MS) * CHART_HEIGHT;
+
+  const offset = CHART_WIDTH - frameTimes.length;
+  frameTimes.forEach((ms, i) => {
+    ctx.fillStyle = ms > BUDGET_MS * 1.5 ? "#f55" : "#5d5";
+    const height = toHeight(ms);
+    ctx.fillRect(offset + i, CHART_HEIGHT - height, 1, height);
+  });
+
+  ctx.fillStyle = "rgba(255, 255, 255, 0.5)";
+  ctx.fillRect(0, CHART_HEIGHT - toHeight(BUDGET_MS), CHART_WIDTH, 1);
+}
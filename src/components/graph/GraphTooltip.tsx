@@ -0,0 +1,57 @@
+import { Box, Tooltip } from '@mui/material';
+import { type PickedNode } from './picking.ts';
+
+type GraphTooltipProps = {
+  node: PickedNode | null; // the hovered node
+  decorative?: boolean; // the graph is hidden from assistive technology, so is the anchor
+};
+
+/**
+ * GraphTooltip — label and data of the hovered node of Graph:
+ * - an MUI Tooltip (role "tooltip") on an invisible anchor laid over the node, which is described
+ *   by it for screen readers
+ * - nothing is shown for nodes without label or data, e.g. the generated ambient nodes
+ * - the anchor ignores the pointer, so the canvas underneath keeps receiving it
+ */
+export default function GraphTooltip({ node, decorative = false }: GraphTooltipProps) {
+  const fields = Object.entries(node?.data ?? {});
+  if (!node || (node.label == null && fields.length === 0)) return null;
+
+  const title = (
+    <Box>
+      {node.label != null && <Box sx={{ fontWeight: 600 }}>{node.label}</Box>}
+      {fields.length > 0 && (
+        <Box
+          component="dl"
+          sx={{ display: "grid", gap: "0 8px", gridTemplateColumns: "auto auto", m: 0 }}
+        >
+          {fields.map(([key, value]) => (
+            // a <div> may group a <dt> with its <dd>; `contents` keeps them in the grid
+            <Box key={key} sx={{ display: "contents" }}>
+              <Box component="dt" sx={{ opacity: 0.7 }}>{key}</Box>
+              <Box component="dd" sx={{ m: 0 }}>{String(value)}</Box>
+            </Box>
+          ))}
+        </Box>
+      )}
+    </Box>
+  );
+
+  return (
+    <Tooltip arrow describeChild open placement="top" title={title}>
+      <Box
+        {...(decorative
+          ? { "aria-hidden": true }
+          : { "aria-label": node.label ?? `Node ${node.dataId ?? node.id}`, role: "img" })}
+        sx={{
+          height: node.radius * 2,
+          left: node.x - node.radius,
+          pointerEvents: "none",
+          position: "absolute",
+          top: node.y - node.radius,
+          width: node.radius * 2
+        }}
+      />
+    </Tooltip>
+  );
+}
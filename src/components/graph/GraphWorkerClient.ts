@@ -0,0 +1,316 @@
+import {
+  type EnvironmentState,
+  type GraphInputSink,
+  type KeyInput,
+  observeCanvas,
+  type PointerInput
+} from './domInput.ts';
+import { type CaptureOptions, resolveCaptureSize } from './capture.ts';
+import { type GraphEngineOptions, type ReducedMotionBehavior } from './GraphEngine.ts';
+import { type DrawingContext } from './drawFrame.ts';
+import { type GraphSnapshot, parseSnapshot } from './snapshot.ts';
+import { type RecordingSource } from './recorder.ts';
+import { type GraphWorkerRequest, type GraphWorkerResponse } from './workerProtocol.ts';
+import { type GraphData, validateGraphData } from './graphData.ts';
+import { type GraphConfig } from './graphConfig.ts';
+import { type GraphStats } from './stats.ts';
+import { type NodeCounts } from './quality.ts';
+import { type NodeCountTier } from './nodes.ts';
+import { type PickedNode } from './picking.ts';
+
+/* A canvas can be transferred only once, yet the same element may be mounted again right after a
+  destroy (React StrictMode runs effects twice in development). So the worker holding a canvas
+  outlives destroy() until the next task, and a remount in the meantime reuses it. */
+type CanvasWorker = {
+  worker: Worker;
+  terminateId: number | null; // pending termination after destroy()
+};
+const canvasWorkers = new WeakMap<HTMLCanvasElement, CanvasWorker>();
+
+// a request waiting for the worker's reply
+type PendingRequest = {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+};
+
+/** Whether this browser can run the graph in a worker (OffscreenCanvas plus a transferable canvas) */
+export function supportsOffscreenCanvas(): boolean {
+  return typeof Worker !== "undefined" &&
+    typeof OffscreenCanvas !== "undefined" &&
+    typeof HTMLCanvasElement !== "undefined" &&
+    "transferControlToOffscreen" in HTMLCanvasElement.prototype;
+}
+
+/**
+ * GraphWorkerClient
+ * - page side of the offscreen mode: same lifecycle as GraphEngine (mount, resize, start, stop,
+ *   setConfig, setData, setReducedMotion, setStatsListener, getSeed, destroy) but the engine runs
+ *   in graph.worker.ts
+ * - mount transfers the canvas with `transferControlToOffscreen`; from then on the page only
+ *   observes it (observeCanvas) and forwards input, resizes and environment changes by message
+ * - a canvas can be transferred once: it belongs to its worker until that is terminated
+ * - requests (getSnapshot, toSvg, captureFrame, recordFrame) reject with the error the engine
+ *   threw in the worker
+ */
+export class GraphWorkerClient implements GraphInputSink, RecordingSource {
+  private config?: Partial<GraphConfig>;
+  private reducedMotion: ReducedMotionBehavior;
+  private data: GraphData | null;
+  private statsListener: ((stats: GraphStats) => void) | null = null;
+  private nodeCounts: NodeCounts;
+  private onNodeCountSettled: ((tier: NodeCountTier, nodeCount: number) => void) | null;
+  private onNodeHover: ((node: PickedNode | null) => void) | null;
+  private onNodeClick: ((node: PickedNode | null) => void) | null;
+
+  private canvas: HTMLCanvasElement | null = null;
+  private worker: Worker | null = null;
+  private detachInput: (() => void) | null = null;
+  private seed: number | null = null; // pushed by the worker
+  private running = false; // start() was called, mirrors the engine in the worker
+
+  // requests waiting for their reply, by requestId
+  private pending = new Map<number, PendingRequest>();
+  private nextRequestId = 1;
+
+  constructor(options: Omit<GraphEngineOptions, "manual"> = {}) {
+    this.config = options.config;
+    this.reducedMotion = options.reducedMotion ?? "static";
+    this.data = options.data ?? null;
+    if (this.data) validateGraphData(this.data);
+    this.nodeCounts = { ...options.nodeCounts };
+    this.onNodeCountSettled = options.onNodeCountSettled ?? null;
+    this.onNodeHover = options.onNodeHover ?? null;
+    this.onNodeClick = options.onNodeClick ?? null;
+  }
+
+  /** Transfer the canvas to a new worker and start forwarding its input */
+  mount(canvas: HTMLCanvasElement) {
+    if (this.worker) this.destroy();
+
+    const rect = canvas.getBoundingClientRect();
+    let owner = canvasWorkers.get(canvas);
+    let offscreen: OffscreenCanvas | undefined;
+    if (owner) {
+      // remounted before the previous worker was terminated: it still holds the canvas
+      if (owner.terminateId != null) window.clearTimeout(owner.terminateId);
+      owner.terminateId = null;
+    } else {
+      offscreen = canvas.transferControlToOffscreen();
+      owner = {
+        worker: new Worker(new URL('./graph.worker.ts', import.meta.url), { type: "module" }),
+        terminateId: null,
+      };
+      canvasWorkers.set(canvas, owner);
+    }
+
+    this.canvas = canvas;
+    this.worker = owner.worker;
+    this.worker.addEventListener("message", this.onMessage);
+    this.post({
+      type: "init",
+      canvas: offscreen,
+      width: rect.width,
+      height: rect.height,
+      devicePixelRatio: window.devicePixelRatio || 1,
+      config: this.config,
+      reducedMotion: this.reducedMotion,
+      data: this.data,
+      stats: this.statsListener != null,
+      nodeCounts: this.nodeCounts,
+    }, offscreen ? [offscreen] : []);
+
+    this.detachInput = observeCanvas(canvas, this);
+  }
+
+  resize(width: number, height: number) {
+    this.post({ type: "resize", width, height });
+  }
+
+  start() {
+    this.running = true;
+    this.post({ type: "start" });
+  }
+
+  stop() {
+    this.running = false;
+    this.post({ type: "stop" });
+  }
+
+  isRunning() {
+    return this.running;
+  }
+
+  setConfig(overrides: Partial<GraphConfig> = {}, transitionMs = 0) {
+    this.config = overrides;
+    this.post({ type: "config", config: overrides, transitionMs });
+  }
+
+  /** Validated here, so invalid data throws on the page (see GraphEngine.setData) */
+  setData(data: GraphData | null) {
+    if (data) validateGraphData(data);
+    this.data = data;
+    this.post({ type: "data", data });
+  }
+
+  setReducedMotion(behavior: ReducedMotionBehavior) {
+    this.reducedMotion = behavior;
+    this.post({ type: "reducedMotion", behavior });
+  }
+
+  /** GraphStats measured in the worker, pushed a few times per second while a listener is set */
+  setStatsListener(listener: ((stats: GraphStats) => void) | null) {
+    this.statsListener = listener;
+    this.post({ type: "stats", enabled: listener != null });
+  }
+
+  /** Seed of the current layout, as last reported by the worker (null until it has started) */
+  getSeed(): number | null {
+    return this.seed;
+  }
+
+  /** The worker's nodes, config and seed (see GraphEngine.getSnapshot) */
+  getSnapshot(): Promise<GraphSnapshot> {
+    return this.request<GraphSnapshot>((requestId) => ({ type: "getSnapshot", requestId }));
+  }
+
+  /** Validate a snapshot here, so GraphSnapshotError is thrown on the page, then load it */
+  loadSnapshot(input: GraphSnapshot | string) {
+    const snapshot = parseSnapshot(input);
+    this.post({ type: "loadSnapshot", snapshot });
+  }
+
+  /** The current frame as a standalone SVG document, serialized in the worker */
+  toSvg(): Promise<string> {
+    return this.request<string>((requestId) => ({ type: "toSvg", requestId }));
+  }
+
+  /** Pixel size of a capture with these options, from the size of the canvas on the page */
+  getCaptureSize(options: CaptureOptions = {}) {
+    const rect = this.canvas?.getBoundingClientRect();
+    const dpr = window.devicePixelRatio || 1;
+    return resolveCaptureSize(options, rect?.width || 1, rect?.height || 1, dpr);
+  }
+
+  /** PNG of the current frame, encoded in the worker */
+  captureFrame(options: CaptureOptions = {}): Promise<Blob> {
+    return this.request<Blob>((requestId) => ({ type: "captureFrame", requestId, options }));
+  }
+
+  /** Step the worker's engine by `dtMs` and paint the frame it sends back into `ctx` */
+  async recordFrame(ctx: DrawingContext, width: number, height: number, dtMs: number) {
+    const bitmap = await this.request<ImageBitmap>((requestId) => ({
+      type: "recordFrame", requestId, width, height, dtMs,
+    }));
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(bitmap, 0, 0);
+    bitmap.close();
+  }
+
+  pointerDown(input: PointerInput) {
+    this.post({ type: "pointerDown", input });
+  }
+
+  pointerMove(input: PointerInput) {
+    this.post({ type: "pointerMove", input });
+  }
+
+  pointerUp(input: PointerInput) {
+    this.post({ type: "pointerUp", input });
+  }
+
+  pointerLeave() {
+    this.post({ type: "pointerLeave" });
+  }
+
+  keyDown(input: KeyInput) {
+    this.post({ type: "keyDown", input });
+  }
+
+  setEnvironment(state: Partial<EnvironmentState>) {
+    this.post({ type: "environment", state });
+  }
+
+  /** Stop observing the canvas and terminate the worker (the transferred canvas goes with it) */
+  destroy() {
+    this.detachInput?.();
+    this.detachInput = null;
+    this.running = false;
+    const { canvas, worker } = this;
+    if (!canvas || !worker) return;
+
+    this.post({ type: "destroy" });
+    worker.removeEventListener("message", this.onMessage);
+    const owner = canvasWorkers.get(canvas);
+    if (owner) {
+      owner.terminateId = window.setTimeout(() => {
+        worker.terminate();
+        canvasWorkers.delete(canvas);
+      }, 0);
+    }
+    this.canvas = null;
+    this.worker = null;
+
+    for (const { reject } of this.pending.values()) reject(new Error("Graph worker was destroyed"));
+    this.pending.clear();
+  }
+
+  private post(message: GraphWorkerRequest, transfer: Transferable[] = []) {
+    this.worker?.postMessage(message, transfer);
+  }
+
+  // post a request and settle with the reply that carries the same id
+  private request<T>(create: (requestId: number) => GraphWorkerRequest): Promise<T> {
+    if (!this.worker) return Promise.reject(new Error("Graph worker is not mounted"));
+    const requestId = this.nextRequestId++;
+    return new Promise<T>((resolve, reject) => {
+      this.pending.set(requestId, { resolve: resolve as (value: unknown) => void, reject });
+      this.post(create(requestId));
+    });
+  }
+
+  private onMessage = (event: MessageEvent<GraphWorkerResponse>) => {
+    const message = event.data;
+    if (message.type === "seed") {
+      this.seed = message.seed;
+      return;
+    }
+    if (message.type === "stats") {
+      this.statsListener?.(message.stats);
+      return;
+    }
+    if (message.type === "nodeCountSettled") {
+      // also the start count if the worker is initialized again
+      this.nodeCounts[message.tier] = message.nodeCount;
+      this.onNodeCountSettled?.(message.tier, message.nodeCount);
+      return;
+    }
+    if (message.type === "nodeHover") {
+      this.onNodeHover?.(message.node);
+      return;
+    }
+    if (message.type === "nodeClick") {
+      this.onNodeClick?.(message.node);
+      return;
+    }
+    const pending = this.pending.get(message.requestId);
+    if (!pending) return;
+    this.pending.delete(message.requestId);
+    switch (message.type) {
+      case "snapshot":
+        pending.resolve(message.snapshot);
+        break;
+      case "svg":
+        pending.resolve(message.svg);
+        break;
+      case "image":
+        pending.resolve(message.blob);
+        break;
+      case "bitmap":
+        pending.resolve(message.bitmap);
+        break;
+      case "error":
+        pending.reject(new Error(message.message));
+        break;
+    }
+  };
+}
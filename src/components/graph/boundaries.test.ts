@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { applyBoundary } from './boundaries.ts';
+import { type Node } from './nodes.ts';
+import { createRandom } from './random.ts';
+
+const WIDTH = 200;
+const HEIGHT = 100;
+
+const node = (fields: Partial<Node>): Node => ({
+  id: 0, x: 50, y: 50, vx: 0, vy: 0, radius: 2, ...fields,
+});
+
+describe("applyBoundary", () => {
+  it("bounce: clamps a node that passed a wall and reflects its velocity inward", () => {
+    const left = node({ x: -5, vx: -3 });
+    const right = node({ x: WIDTH + 5, vx: 3 });
+    const top = node({ y: -5, vy: -3 });
+    const bottom = node({ y: HEIGHT + 5, vy: 3 });
+    applyBoundary("bounce", [left, right, top, bottom], WIDTH, HEIGHT, 30, createRandom(1));
+
+    expect(left).toMatchObject({ x: 2, vx: 3 });
+    expect(right).toMatchObject({ x: WIDTH - 2, vx: -3 });
+    expect(top).toMatchObject({ y: 2, vy: 3 });
+    expect(bottom).toMatchObject({ y: HEIGHT - 2, vy: -3 });
+  });
+
+  it("bounce: leaves a node inside the walls alone", () => {
+    const inside = node({ vx: 1, vy: -1 });
+    applyBoundary("bounce", [inside], WIDTH, HEIGHT, 30, createRandom(1));
+    expect(inside).toMatchObject({ x: 50, y: 50, vx: 1, vy: -1 });
+  });
+
+  it("wrap: brings a node that left one side back on the opposite side", () => {
+    const n = node({ x: WIDTH + 10, y: -10, vx: 1, vy: -1 });
+    applyBoundary("wrap", [n], WIDTH, HEIGHT, 30, createRandom(1));
+    expect(n).toMatchObject({ x: 10, y: HEIGHT - 10, vx: 1, vy: -1 });
+  });
+
+  it("open: respawns a node that left the canvas just outside an edge, heading inward", () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const n = node({ x: -50, y: -50 });
+      applyBoundary("open", [n], WIDTH, HEIGHT, 30, createRandom(seed));
+      const { x, y, vx, vy } = n as Required<Node>;
+
+      // on the radius-wide ring around the canvas
+      expect(x >= -2 && x <= WIDTH + 2 && y >= -2 && y <= HEIGHT + 2).toBe(true);
+      expect(x < 0 || x > WIDTH || y < 0 || y > HEIGHT).toBe(true);
+      // moving toward the inside
+      if (x < 0) expect(vx).toBeGreaterThan(0);
+      if (x > WIDTH) expect(vx).toBeLessThan(0);
+      if (y < 0) expect(vy).toBeGreaterThan(0);
+      if (y > HEIGHT) expect(vy).toBeLessThan(0);
+    }
+  });
+
+  it("keeps a pinned interaction node at its pointer, in every mode", () => {
+    for (const mode of ["bounce", "wrap", "soft", "open"] as const) {
+      const pointer = node({ id: -1, x: -20, y: 20, fx: -20, fy: 20, vx: 4, vy: 4 });
+      applyBoundary(mode, [pointer], WIDTH, HEIGHT, 30, createRandom(1));
+      expect(pointer).toMatchObject({ x: -20, y: 20, vx: 0, vy: 0 });
+    }
+  });
+});
@@ -0,0 +1,147 @@
+import { type Force } from "d3-force";
+import { type Node } from './nodes.ts';
+import { type RandomSource } from './random.ts';
+import { REFERENCE_FPS, toStepVelocity } from './timeStep.ts';
+
+/**
+ * What happens at the edge of the canvas:
+ * - "bounce": nodes are clamped and reflected (reflective walls)
+ * - "wrap": toroidal, nodes leaving one side come back on the opposite side and edges are drawn
+ *   across the seam
+ * - "soft": a repelling margin force curves nodes back before they reach the edge
+ * - "open": nodes leave freely and are respawned just outside a random edge, heading inward
+ */
+export type BoundaryMode = "bounce" | "wrap" | "soft" | "open";
+
+export type BoundarySettings = {
+  mode: BoundaryMode;
+  margin: number; // px, width of the soft margin
+  strength: number; // px/s² at the very edge of the soft margin
+};
+
+/**
+ * applyBoundary
+ * - runs after every simulation step for every mode except "soft" (which is a force, see below)
+ * - interaction nodes (negative ids) that are pinned to a pointer are left alone
+ */
+export function applyBoundary(
+  mode: BoundaryMode,
+  nodes: Node[],
+  width: number,
+  height: number,
+  speed: number, // px/s, for respawned nodes
+  random: RandomSource
+) {
+  for (const n of nodes) {
+    // if an interaction node is pinned, keep its velocity zero and skip boundary adjustments
+    if (n.id < 0 && n.fx != null && n.fy != null) {
+      n.vx = 0;
+      n.vy = 0;
+      // ensure x/y match pinned position
+      n.x = n.fx;
+      n.y = n.fy;
+      continue;
+    }
+
+    if (mode === "bounce") bounce(n, width, height);
+    else if (mode === "wrap") wrap(n, width, height);
+    else if (mode === "open") {
+      if (n.id >= 0 && isOutside(n, width, height)) respawn(n, width, height, speed, random);
+    } else if (n.id < 0) {
+      // soft: an unpinned interaction node only drifts, keep it on the canvas
+      bounce(n, width, height);
+    }
+  }
+}
+
+// clamp and reflect
+function bounce(n: Node, width: number, height: number) {
+  const r = n.radius ?? 0;
+
+  // clamp and reflect X
+  if (n.x! <= r) {
+    n.x = r;
+    n.vx = Math.abs(n.vx ?? 0);
+  } else if (n.x! >= width - r) {
+    n.x = width - r;
+    n.vx = -(Math.abs(n.vx ?? 0));
+  }
+
+  // clamp and reflect Y
+  if (n.y! <= r) {
+    n.y = r;
+    n.vy = Math.abs(n.vy ?? 0);
+  } else if (n.y! >= height - r) {
+    n.y = height - r;
+    n.vy = -(Math.abs(n.vy ?? 0));
+  }
+}
+
+function wrap(n: Node, width: number, height: number) {
+  n.x = ((n.x! % width) + width) % width;
+  n.y = ((n.y! % height) + height) % height;
+}
+
+function isOutside(n: Node, width: number, height: number) {
+  const r = n.radius ?? 0;
+  return n.x! < -r || n.x! > width + r || n.y! < -r || n.y! > height + r;
+}
+
+// respawn just outside a random edge (picked proportionally to its length), heading inward
+function respawn(n: Node, width: number, height: number, speed: number, random: RandomSource) {
+  const r = n.radius ?? 0;
+  const inward = toStepVelocity(speed) * (0.3 + 0.7 * random());
+  const along = toStepVelocity(speed) * (random() - 0.5) * 2;
+  const t = random() * 2 * (width + height);
+
+  if (t < width) {
+    n.x = t; n.y = -r; n.vx = along; n.vy = inward; // top
+  } else if (t < 2 * width) {
+    n.x = t - width; n.y = height + r; n.vx = along; n.vy = -inward; // bottom
+  } else if (t < 2 * width + height) {
+    n.x = -r; n.y = t - 2 * width; n.vx = inward; n.vy = along; // left
+  } else {
+    n.x = width + r; n.y = t - 2 * width - height; n.vx = -inward; n.vy = along; // right
+  }
+}
+
+/**
+ * forceSoftBoundary
+ * - custom d3 force that is only active in "soft" mode
+ * - inside the margin nodes are accelerated inward, growing quadratically from 0 at the inner
+ *   edge of the margin to `strength` at the canvas edge, which bends paths smoothly instead of
+ *   reflecting them
+ */
+export function forceSoftBoundary(
+  getBounds: () => { width: number; height: number },
+  getSettings: () => BoundarySettings
+): Force<Node, undefined> {
+  let nodes: Node[] = [];
+
+  function force() {
+    const settings = getSettings();
+    if (settings.mode !== "soft") return;
+    const { width, height } = getBounds();
+    const margin = Math.max(1, Math.min(settings.margin, width / 2, height / 2));
+    // px/s² -> velocity change per reference step
+    const accel = settings.strength / (REFERENCE_FPS * REFERENCE_FPS);
+
+    // depth into the margin: 0 at its inner edge, 1 at the canvas edge (and beyond)
+    const push = (distanceToEdge: number) => {
+      const depth = Math.min(1.5, Math.max(0, 1 - distanceToEdge / margin));
+      return accel * depth * depth;
+    };
+
+    for (const n of nodes) {
+      if (n.id < 0) continue;
+      n.vx = (n.vx ?? 0) + push(n.x!) - push(width - n.x!);
+      n.vy = (n.vy ?? 0) + push(n.y!) - push(height - n.y!);
+    }
+  }
+
+  force.initialize = (next: Node[]) => {
+    nodes = next;
+  };
+
+  return force;
+}
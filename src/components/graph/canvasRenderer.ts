@@ -0,0 +1,74 @@
+import { drawFrame, type DrawingContext } from './drawFrame.ts';
+import { type FrameModel } from './frameModel.ts';
+import { type GraphConfig } from './graphConfig.ts';
+import { type GraphRenderer } from './renderer.ts';
+
+/**
+ * Canvas2DRenderer
+ * - draws with drawFrame on a page canvas, or on an OffscreenCanvas inside a worker
+ * - keeps the drawing buffer at CSS size × devicePixelRatio so Hi-DPI screens stay crisp
+ * - the context needs its alpha channel: frames are cleared, and the page behind the canvas shows
+ *   `backgroundColor` (an opaque context would clear to black)
+ */
+export class Canvas2DRenderer implements GraphRenderer {
+  private canvas: HTMLCanvasElement | OffscreenCanvas;
+  private ctx: DrawingContext;
+
+  constructor(canvas: HTMLCanvasElement | OffscreenCanvas, ctx: DrawingContext) {
+    this.canvas = canvas;
+    this.ctx = ctx;
+  }
+
+  // (re)size the drawing buffer; assigning canvas.width also resets the context transform
+  resize(width: number, height: number, dpr: number) {
+    const { canvas, ctx } = this;
+    canvas.width = Math.max(1, Math.floor(width * dpr));
+    canvas.height = Math.max(1, Math.floor(height * dpr));
+    // an OffscreenCanvas has no CSS size, its element on the page keeps the one from the layout
+    if ("style" in canvas) {
+      canvas.style.width = `${width}px`;
+      canvas.style.height = `${height}px`;
+    }
+    /*
+      🔎 Canvas Transform Matrix
+
+      The 2D canvas transform is represented by a 3×3 matrix. Because the
+      bottom row is always [0, 0, 1], only six values are required:
+
+        setTransform(a, b, c, d, e, f) =>
+        [ a  c  e
+          b  d  f
+          0  0  1 ]
+
+      Where:
+        a = scale X
+        b = skew Y
+        c = skew X
+        d = scale Y
+        e = translate X
+        f = translate Y
+
+      ✅ Identity matrix (do nothing):
+        [ 1 0 0
+          0 1 0
+          0 0 1 ]
+
+      For the identity transform:
+        a = 1   (no scale X)
+        d = 1   (no scale Y)
+        b = 0,
+        c = 0   (no skew/rotation)
+        e = 0,
+        f = 0   (no translation)
+    */
+    ctx.setTransform(1, 0, 0, 1, 0, 0); //Multiplying by identity matrix resets any existing transforms
+    ctx.scale(dpr, dpr);
+  }
+
+  render(frame: FrameModel, cfg: GraphConfig) {
+    drawFrame(this.ctx, frame, cfg);
+  }
+
+  // the canvas belongs to the page (or the worker), there is nothing to tear down
+  destroy() {}
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { resolveCaptureSize } from './capture.ts';
+
+describe("resolveCaptureSize", () => {
+  it("uses the on-screen pixel size without options", () => {
+    expect(resolveCaptureSize({}, 400, 300, 2)).toEqual({ width: 800, height: 600 });
+  });
+
+  it("keeps the aspect ratio when only one side is given", () => {
+    expect(resolveCaptureSize({ width: 3840 }, 400, 300, 1)).toEqual({ width: 3840, height: 2880 });
+    expect(resolveCaptureSize({ height: 150 }, 400, 300, 1)).toEqual({ width: 200, height: 150 });
+  });
+
+  it("takes both sides as given, rounded to whole pixels of at least 1", () => {
+    expect(resolveCaptureSize({ width: 99.6, height: 0.2 }, 400, 300, 1))
+      .toEqual({ width: 100, height: 1 });
+  });
+});
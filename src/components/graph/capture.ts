@@ -0,0 +1,80 @@
+import { drawFrame, type DrawingContext } from './drawFrame.ts';
+import { type FrameModel } from './frameModel.ts';
+import { type GraphConfig } from './graphConfig.ts';
+
+/**
+ * Output size of an exported image, in pixels and independent of the viewport:
+ * - width and height: exactly that size, the graph is fitted inside and centered
+ * - only one of them: the other follows the aspect ratio of the graph
+ * - neither: the on-screen pixel size (CSS size × devicePixelRatio)
+ */
+export type CaptureOptions = {
+  width?: number;
+  height?: number;
+};
+
+/** Resolve CaptureOptions against the graph's CSS size and pixel ratio */
+export function resolveCaptureSize(
+  options: CaptureOptions,
+  graphWidth: number,
+  graphHeight: number,
+  dpr: number
+): { width: number; height: number } {
+  const aspect = graphWidth / graphHeight;
+  let { width, height } = options;
+  if (width == null && height == null) {
+    width = graphWidth * dpr;
+    height = graphHeight * dpr;
+  } else if (width == null) {
+    width = height! * aspect;
+  } else if (height == null) {
+    height = width / aspect;
+  }
+  return { width: Math.max(1, Math.round(width)), height: Math.max(1, Math.round(height!)) };
+}
+
+/**
+ * drawExportFrame
+ * - draws `frame` scaled uniformly to fit a `width` × `height` px context, centered, on the
+ *   configured background (exports include the background the page would show)
+ * - line widths and radii scale with the frame, so a 4K capture looks like a sharper screenshot
+ */
+export function drawExportFrame(
+  ctx: DrawingContext,
+  frame: FrameModel,
+  cfg: GraphConfig,
+  width: number,
+  height: number
+) {
+  const scale = Math.min(width / frame.width, height / frame.height);
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  ctx.fillStyle = cfg.backgroundColor;
+  ctx.fillRect(0, 0, width, height);
+  ctx.setTransform(
+    scale, 0, 0, scale, (width - frame.width * scale) / 2, (height - frame.height * scale) / 2
+  );
+  drawFrame(ctx, frame, cfg, cfg.backgroundColor);
+}
+
+/** A detached canvas for exports: an OffscreenCanvas where available (also in workers) */
+export function createExportCanvas(width: number, height: number) {
+  if (typeof OffscreenCanvas !== "undefined") {
+    const canvas = new OffscreenCanvas(width, height);
+    return { canvas, ctx: canvas.getContext("2d")! as DrawingContext };
+  }
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  return { canvas, ctx: canvas.getContext("2d")! as DrawingContext };
+}
+
+/** Encode a canvas as PNG */
+export function canvasToPng(canvas: HTMLCanvasElement | OffscreenCanvas): Promise<Blob> {
+  if (!("toBlob" in canvas)) return canvas.convertToBlob({ type: "image/png" });
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => (blob ? resolve(blob) : reject(new Error("PNG encoding failed"))),
+      "image/png"
+    );
+  });
+}
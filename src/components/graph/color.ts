@@ -0,0 +1,34 @@
+export type Rgb = { r: number; g: number; b: number };
+
+/** A color string together with its channels, parsed once instead of on every frame */
+export type ParsedColor = Rgb & { hex: string };
+
+/** Utility: convert #rrggbb to {r,g,b} */
+export function hexToRgb(hex: string): Rgb {
+  if (!hex) return { r: 200, g: 200, b: 200 };
+  const h = hex.replace("#", "");
+  if (h.length === 3) {
+    const r = parseInt(h[0] + h[0], 16);
+    const g = parseInt(h[1] + h[1], 16);
+    const b = parseInt(h[2] + h[2], 16);
+    return { r, g, b };
+  }
+  const r = parseInt(h.slice(0, 2), 16);
+  const g = parseInt(h.slice(2, 4), 16);
+  const b = parseInt(h.slice(4, 6), 16);
+  return { r, g, b };
+}
+
+/** Parse a #rrggbb color, keeping the string it was parsed from (to detect a changed color) */
+export function parseColor(hex: string): ParsedColor {
+  return { hex, ...hexToRgb(hex) };
+}
+
+/** Blend two #rrggbb colors, t = 0 gives `from` and t = 1 gives `to` */
+export function mixColors(from: string, to: string, t: number): string {
+  const a = hexToRgb(from);
+  const b = hexToRgb(to);
+  const channel = (x: number, y: number) =>
+    Math.round(x + (y - x) * t).toString(16).padStart(2, "0");
+  return `#${channel(a.r, b.r)}${channel(a.g, b.g)}${channel(a.b, b.b)}`;
+}
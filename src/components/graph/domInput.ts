@@ -0,0 +1,208 @@
+/** A pointer in canvas coordinates (CSS px, clamped to the canvas bounds) */
+export type PointerInput = {
+  pointerId: number;
+  isPrimary: boolean;
+  x: number;
+  y: number;
+};
+
+/** Keys a focused graph reacts to: the arrows move the pointer, Enter and Escape click */
+export type GraphKey = "ArrowUp" | "ArrowDown" | "ArrowLeft" | "ArrowRight" | "Enter" | "Escape";
+
+/** A key pressed on the focused canvas */
+export type KeyInput = {
+  key: GraphKey;
+  fast: boolean; // Shift: larger steps
+};
+
+const GRAPH_KEYS: ReadonlySet<string> = new Set<GraphKey>([
+  "ArrowUp",
+  "ArrowDown",
+  "ArrowLeft",
+  "ArrowRight",
+  "Enter",
+  "Escape",
+]);
+
+/** What only the page can observe about the canvas; the engine pauses and rescales from it */
+export type EnvironmentState = {
+  pageVisible: boolean; // document.visibilityState
+  inViewport: boolean; // IntersectionObserver
+  prefersReducedMotion: boolean; // prefers-reduced-motion: reduce
+  devicePixelRatio: number;
+};
+
+/**
+ * Receives the input of a canvas: a GraphEngine on the main thread, or a GraphWorkerClient that
+ * forwards everything to the engine in its worker
+ */
+export type GraphInputSink = {
+  pointerDown(input: PointerInput): void;
+  pointerMove(input: PointerInput): void;
+  pointerUp(input: PointerInput): void; // pointerup and pointercancel
+  pointerLeave(): void; // the pointer left the window
+  keyDown(input: KeyInput): void; // the canvas has focus (it must be focusable, see Graph)
+  setEnvironment(state: Partial<EnvironmentState>): void;
+};
+
+/**
+ * observeCanvas
+ * - attaches the pointer listeners of a canvas (or svg) and watches page visibility, viewport
+ *   intersection, prefers-reduced-motion and the device pixel ratio, reporting all of it to `sink`
+ * - pointer moves are batched to the latest one per pointer per animation frame and converted to
+ *   canvas coordinates before they are reported
+ * - GraphKey presses without Ctrl, Alt or Meta are reported and kept from scrolling the page
+ * - the full environment is reported once right away; returns a function that detaches everything
+ */
+export function observeCanvas(
+  canvas: HTMLCanvasElement | SVGSVGElement,
+  sink: GraphInputSink
+): () => void {
+  const pendingMoves = new Map<number, PointerEvent>(); // latest move per pointerId
+  const capturedPointers = new Set<number>();
+  let pointerRafId: number | null = null;
+
+  // ensure touch interactions don't trigger page scroll while interacting
+  canvas.style.touchAction = "none";
+
+  /* <canvas> and <svg> share the pointer events, but TypeScript cannot pick an addEventListener
+    overload on their union, so listeners go through these two typed helpers */
+  type PointerListener = (e: PointerEvent) => void;
+  const listen = (type: string, listener: PointerListener, options?: AddEventListenerOptions) =>
+    canvas.addEventListener(type, listener as EventListener, options);
+  const unlisten = (type: string, listener: PointerListener) =>
+    canvas.removeEventListener(type, listener as EventListener);
+
+  const toInput = (e: PointerEvent, rect = canvas.getBoundingClientRect()): PointerInput => {
+    // subtract the canvas offset to turn viewport coordinates into canvas coordinates
+    const cx = e.clientX - rect.left;//cx is the canvas x coordinate.
+    const cy = e.clientY - rect.top;
+    // clamp to canvas bounds
+    return {
+      pointerId: e.pointerId,
+      isPrimary: e.isPrimary,
+      x: Math.max(0, Math.min(cx, rect.width)),
+      y: Math.max(0, Math.min(cy, rect.height)),
+    };
+  };
+
+  // Process pointer moves in rAF loop
+  const processPointer = () => {
+    pointerRafId = null;
+    const rect = canvas.getBoundingClientRect();
+    for (const e of pendingMoves.values()) sink.pointerMove(toInput(e, rect));
+    pendingMoves.clear();
+  };
+
+  // Global pointer move (hover-like behavior) — still useful when not actively dragging
+  const onPointerMove = (e: PointerEvent) => {
+    // store last event and schedule rAF processing
+    pendingMoves.set(e.pointerId, e);
+    if (pointerRafId == null) pointerRafId = requestAnimationFrame(processPointer);
+  };
+
+  // Start drag on pointerdown (capture pointer)
+  const onPointerDown = (e: PointerEvent) => {
+    // prevent default to avoid touch scrolling (listener must be non-passive)
+    e.preventDefault();
+    // capture pointer so we keep receiving events even if finger leaves canvas
+    try {
+      canvas.setPointerCapture(e.pointerId);
+      capturedPointers.add(e.pointerId);
+    } catch {
+      // ignore if not supported
+    }
+    pendingMoves.delete(e.pointerId);
+    sink.pointerDown(toInput(e));
+  };
+
+  // End drag on pointerup / pointercancel
+  const onPointerEnd = (e: PointerEvent) => {
+    pendingMoves.delete(e.pointerId);
+    // release pointer capture
+    try {
+      canvas.releasePointerCapture(e.pointerId);
+    } catch {
+      // ignore
+    }
+    capturedPointers.delete(e.pointerId);
+    sink.pointerUp(toInput(e));
+  };
+
+  // pointerleave of window: the sink unpins so nodes can drift
+  const onPointerLeave = () => sink.pointerLeave();
+
+  const onKeyDown = (e: KeyboardEvent) => {
+    if (!GRAPH_KEYS.has(e.key) || e.ctrlKey || e.altKey || e.metaKey) return;
+    e.preventDefault(); // arrows would scroll the page
+    sink.keyDown({ key: e.key as GraphKey, fast: e.shiftKey });
+  };
+
+  const onVisibilityChange = () => sink.setEnvironment({ pageVisible: !document.hidden });
+
+  const intersectionObserver = new IntersectionObserver((entries) => {
+    for (const entry of entries) sink.setEnvironment({ inViewport: entry.isIntersecting });
+  });
+
+  const reducedMotionQuery = window.matchMedia("(prefers-reduced-motion: reduce)");
+  const onReducedMotionChange = () =>
+    sink.setEnvironment({ prefersReducedMotion: reducedMotionQuery.matches });
+
+  /* DPR change (e.g. window moved to another monitor): a `(resolution: Ndppx)` query stops
+    matching once the ratio changes, so it is re-created for the new ratio after every change. */
+  let dprQuery: MediaQueryList | null = null;
+  const watchDevicePixelRatio = () => {
+    dprQuery?.removeEventListener("change", onDevicePixelRatioChange);
+    dprQuery = window.matchMedia(`(resolution: ${window.devicePixelRatio || 1}dppx)`);
+    dprQuery.addEventListener("change", onDevicePixelRatioChange);
+  };
+  const onDevicePixelRatioChange = () => {
+    sink.setEnvironment({ devicePixelRatio: window.devicePixelRatio || 1 });
+    watchDevicePixelRatio();
+  };
+
+  // Attach listeners
+  // pointerdown must be non-passive so we can call preventDefault to stop scrolling
+  listen("pointerdown", onPointerDown, { passive: false });
+  listen("pointermove", onPointerMove);
+  listen("pointerup", onPointerEnd);
+  listen("pointercancel", onPointerEnd);
+  canvas.addEventListener("keydown", onKeyDown as EventListener);
+  window.addEventListener("pointermove", onPointerMove);
+  window.addEventListener("pointerleave", onPointerLeave);
+  document.addEventListener("visibilitychange", onVisibilityChange);
+  intersectionObserver.observe(canvas);
+  reducedMotionQuery.addEventListener("change", onReducedMotionChange);
+  watchDevicePixelRatio();
+
+  sink.setEnvironment({
+    pageVisible: !document.hidden,
+    prefersReducedMotion: reducedMotionQuery.matches,
+    devicePixelRatio: window.devicePixelRatio || 1,
+  });
+
+  return () => {
+    unlisten("pointerdown", onPointerDown);
+    unlisten("pointermove", onPointerMove);
+    unlisten("pointerup", onPointerEnd);
+    unlisten("pointercancel", onPointerEnd);
+    canvas.removeEventListener("keydown", onKeyDown as EventListener);
+    window.removeEventListener("pointermove", onPointerMove);
+    window.removeEventListener("pointerleave", onPointerLeave);
+    document.removeEventListener("visibilitychange", onVisibilityChange);
+    intersectionObserver.disconnect();
+    reducedMotionQuery.removeEventListener("change", onReducedMotionChange);
+    dprQuery?.removeEventListener("change", onDevicePixelRatioChange);
+
+    // release any pointer capture if still active
+    for (const pointerId of capturedPointers) {
+      try {
+        canvas.releasePointerCapture(pointerId);
+      } catch {}
+    }
+    capturedPointers.clear();
+    if (pointerRafId != null) cancelAnimationFrame(pointerRafId);
+    pointerRafId = null;
+    pendingMoves.clear();
+  };
+}
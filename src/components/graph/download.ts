@@ -0,0 +1,10 @@
+/** Save `blob` as a file, through a temporary object URL and a synthetic link click */
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // some browsers start reading the URL only after the click handler returned
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,92 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { drawFrame, type DrawingContext } from './drawFrame.ts';
+import { type FrameModel } from './frameModel.ts';
+import { DEFAULT_GRAPH_CONFIG } from './graphConfig.ts';
+import { type Node } from './nodes.ts';
+
+// stands in for the canvas Path2D: counts the subpaths added to it
+class FakePath2D {
+  subpaths = 0;
+  moveTo() {
+    this.subpaths++;
+  }
+  lineTo() {}
+  arc() {}
+}
+
+// a context that records every stroke and fill with its style
+function createContext() {
+  const calls: string[] = [];
+  const ctx = {
+    strokeStyle: "",
+    fillStyle: "",
+    clearRect: () => calls.push("clear"),
+    fillRect: () => calls.push(`background ${ctx.fillStyle}`),
+    stroke: (path: FakePath2D) => calls.push(`stroke ${ctx.strokeStyle} ×${path.subpaths}`),
+    fill: (path: FakePath2D) => calls.push(`fill ${ctx.fillStyle} ×${path.subpaths}`),
+  };
+  return { ctx: ctx as unknown as DrawingContext, calls };
+}
+
+const cfg = { ...DEFAULT_GRAPH_CONFIG, edgeColor: "#0000ff" };
+
+const node = (id: number, color: string): Node => ({ id, x: 10 * id, y: 10, color });
+
+beforeEach(() => {
+  vi.stubGlobal("Path2D", FakePath2D);
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("drawFrame", () => {
+  it("strokes one path per edge opacity level and fills one per node color and level", () => {
+    const [a, b, c] = [node(0, "#ff0000"), node(1, "#ff0000"), node(2, "#00ff00")];
+    const edge = { a, b, dist: 10, dx: 10, dy: 0, wrapped: false };
+    const frame: FrameModel = {
+      width: 100,
+      height: 50,
+      edges: [
+        { ...edge, opacity: 0.5 },
+        { ...edge, opacity: 0.501 }, // rounds to the same level
+        { ...edge, opacity: 0.25 },
+        { ...edge, opacity: 0.001 }, // too faint to draw
+      ],
+      nodes: [
+        { node: a, opacity: 1, drawRadius: 2 },
+        { node: b, opacity: 1, drawRadius: 2 },
+        { node: c, opacity: 1, drawRadius: 2 },
+        { node: c, opacity: 0.005, drawRadius: 2 }, // too faint to draw
+      ],
+    };
+    const { ctx, calls } = createContext();
+    drawFrame(ctx, frame, cfg);
+
+    expect(calls).toEqual([
+      "clear",
+      "stroke rgba(0,0,255,0.250) ×1",
+      "stroke rgba(0,0,255,0.500) ×2",
+      "fill rgba(255,0,0,1.000) ×2",
+      "fill rgba(0,255,0,1.000) ×1",
+    ]);
+  });
+
+  it("fills the background when given one, and follows a changed node color", () => {
+    const a = node(0, "#ff0000");
+    const frame: FrameModel = {
+      width: 100, height: 50, edges: [], nodes: [{ node: a, opacity: 1, drawRadius: 2 }],
+    };
+    const { ctx, calls } = createContext();
+    drawFrame(ctx, frame, cfg, "#000000");
+    a.color = "#ffffff";
+    drawFrame(ctx, frame, cfg, "#000000");
+
+    expect(calls).toEqual([
+      "background #000000",
+      "fill rgba(255,0,0,1.000) ×1",
+      "background #000000",
+      "fill rgba(255,255,255,1.000) ×1",
+    ]);
+  });
+});
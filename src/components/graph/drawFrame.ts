@@ -0,0 +1,127 @@
+import { type FrameModel } from './frameModel.ts';
+import { type GraphConfig } from './graphConfig.ts';
+import { type ParsedColor, parseColor, type Rgb } from './color.ts';
+import { type Node } from './nodes.ts';
+
+/** Edges at or below this opacity are not drawn (every renderer culls the same way) */
+export const MIN_EDGE_OPACITY = 0.005;
+
+/** Nodes at or below this opacity are not drawn */
+export const MIN_NODE_OPACITY = 0.01;
+
+/** Color of nodes generated without one */
+export const FALLBACK_NODE_COLOR = "#9fb4c8";
+
+/**
+ * Opacity steps of the canvas: edges and nodes are batched per step, so at most this many strokes
+ * (and fills per color) are issued a frame. The rounding error, at most 1/128, stays within two
+ * steps of an 8-bit alpha channel.
+ */
+export const OPACITY_LEVELS = 64;
+
+/** A 2D context of a page canvas, or of an OffscreenCanvas inside a worker */
+export type DrawingContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/* rgba() strings per color and opacity level, built once; keyed by "r,g,b". Cross-fades pass
+  through a new color every frame, so the cache is capped and drops its oldest color when full. */
+const STYLE_CACHE_SIZE = 256;
+const styleCache = new Map<string, string[]>();
+
+function rgbaStyle({ r, g, b }: Rgb, level: number): string {
+  const key = `${r},${g},${b}`;
+  let styles = styleCache.get(key);
+  if (!styles) {
+    styles = Array.from(
+      { length: OPACITY_LEVELS + 1 },
+      (_, i) => `rgba(${key},${(i / OPACITY_LEVELS).toFixed(3)})`
+    );
+    if (styleCache.size >= STYLE_CACHE_SIZE) styleCache.delete(styleCache.keys().next().value!);
+    styleCache.set(key, styles);
+  }
+  return styles[level];
+}
+
+// visible opacities map to levels 1..OPACITY_LEVELS, so quantizing never hides anything
+function opacityLevel(opacity: number) {
+  return Math.max(1, Math.min(OPACITY_LEVELS, Math.round(opacity * OPACITY_LEVELS)));
+}
+
+// the pre-parsed color of a node, parsed again (once) when its `color` was changed since
+function nodeRgb(node: Node): ParsedColor {
+  const hex = node.color ?? FALLBACK_NODE_COLOR;
+  if (node.rgb?.hex !== hex) node.rgb = parseColor(hex);
+  return node.rgb;
+}
+
+/**
+ * drawFrame
+ * - draws a computed FrameModel (edges first, then nodes) onto a 2D context
+ * - extremely faint edges and nodes are skipped
+ * - batched: edges are collected into one Path2D per opacity level and stroked once each, nodes
+ *   into one Path2D per color and level; shapes of one batch are painted as a single shape, and
+ *   nodes of different colors may overlap in another order than in `frame.nodes`
+ * - with `background` the frame is filled instead of cleared (exports have no page behind them)
+ */
+export function drawFrame(
+  ctx: DrawingContext,
+  frame: FrameModel,
+  cfg: GraphConfig,
+  background?: string
+) {
+  if (background) {
+    ctx.fillStyle = background;
+    ctx.fillRect(0, 0, frame.width, frame.height);
+  } else {
+    ctx.clearRect(0, 0, frame.width, frame.height);
+  }
+
+  // draw edges, one path per opacity level
+  const edgePaths: (Path2D | undefined)[] = [];
+  for (const e of frame.edges) {
+    if (e.opacity <= MIN_EDGE_OPACITY) continue; // skip drawing extremely faint edges
+
+    const level = opacityLevel(e.opacity);
+    const path = edgePaths[level] ??= new Path2D();
+    path.moveTo(e.a.x!, e.a.y!);
+    path.lineTo(e.a.x! + e.dx, e.a.y! + e.dy);
+    if (e.wrapped) {
+      // across the seam: the other half leaves the opposite side of the canvas
+      path.moveTo(e.b.x!, e.b.y!);
+      path.lineTo(e.b.x! - e.dx, e.b.y! - e.dy);
+    }
+  }
+  // use the configured edge color (default #4cc9e5 -> rgb(76,201,229))
+  const edgeRgb = parseColor(cfg.edgeColor);
+  ctx.lineWidth = 1;
+  ctx.lineCap = "round";
+  edgePaths.forEach((path, level) => {
+    if (!path) return;
+    ctx.strokeStyle = rgbaStyle(edgeRgb, level);
+    ctx.stroke(path);
+  });
+
+  // draw nodes, one path per color and opacity level
+  const nodePaths = new Map<string, { rgb: Rgb; paths: (Path2D | undefined)[] }>();
+  for (const { node: n, opacity, drawRadius } of frame.nodes) {
+    // nodes outside the node effect radius have opacity 0
+    if (opacity <= MIN_NODE_OPACITY) continue;
+
+    const rgb = nodeRgb(n);
+    let batch = nodePaths.get(rgb.hex);
+    if (!batch) {
+      batch = { rgb, paths: [] };
+      nodePaths.set(rgb.hex, batch);
+    }
+    const path = batch.paths[opacityLevel(opacity)] ??= new Path2D();
+    // a subpath per circle: without the moveTo the circles would be joined by lines
+    path.moveTo(n.x! + drawRadius, n.y!);
+    path.arc(n.x!, n.y!, drawRadius, 0, Math.PI * 2);
+  }
+  for (const { rgb, paths } of nodePaths.values()) {
+    paths.forEach((path, level) => {
+      if (!path) return;
+      ctx.fillStyle = rgbaStyle(rgb, level);
+      ctx.fill(path);
+    });
+  }
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { computeFrameModel, proximityFactor } from './frameModel.ts';
+import { DEFAULT_GRAPH_CONFIG, type GraphConfig } from './graphConfig.ts';
+import { type Node } from './nodes.ts';
+import { SpatialGrid } from './spatialGrid.ts';
+
+const cfg: GraphConfig = {
+  ...DEFAULT_GRAPH_CONFIG,
+  linkDistance: 100,
+  mouseEffectRadiusNodes: 400,
+  mouseEffectRadiusEdges: 200,
+};
+
+const node = (id: number, x: number, y: number): Node => ({ id, x, y, radius: 2 });
+
+function frame(nodes: Node[], pointer: Node, config = cfg) {
+  return computeFrameModel(nodes, [pointer], config, 1000, 1000, new SpatialGrid());
+}
+
+describe("proximityFactor", () => {
+  it("is 1 at the pointer and 0 at and beyond the radius", () => {
+    for (const falloff of ["linear", "quadratic"] as const) {
+      expect(proximityFactor(0, 100, falloff)).toBe(1);
+      expect(proximityFactor(100, 100, falloff)).toBe(0);
+      expect(proximityFactor(150, 100, falloff)).toBe(0);
+    }
+  });
+
+  it("falls off linearly or quadratically in between", () => {
+    expect(proximityFactor(50, 100, "linear")).toBeCloseTo(0.5);
+    expect(proximityFactor(50, 100, "quadratic")).toBeCloseTo(0.75);
+    expect(proximityFactor(25, 100, "linear")).toBeCloseTo(0.75);
+    expect(proximityFactor(25, 100, "quadratic")).toBeCloseTo(0.9375);
+  });
+});
+
+describe("computeFrameModel", () => {
+  const pointer = node(-1, 500, 500);
+
+  it("connects only nodes closer than linkDistance, fading with their distance", () => {
+    const a = node(0, 500, 500);
+    const b = node(1, 550, 500); // 50 px from a
+    const c = node(2, 500, 620); // 120 px from a
+    const { edges } = frame([a, b, c], pointer);
+
+    expect(edges).toHaveLength(1);
+    const [edge] = edges;
+    expect(new Set([edge.a, edge.b])).toEqual(new Set([a, b]));
+    expect(edge.dist).toBeCloseTo(50);
+    // distance fade 0.5 × the average pointer proximity of both ends (1 and 0.75)
+    expect(edge.opacity).toBeCloseTo(0.5 * (1 + 0.75) / 2);
+  });
+
+  it("drops edges before nodes: between the two radii nodes show, their edges do not", () => {
+    // 300 px from the pointer: outside the edge radius, inside the node radius
+    const a = node(0, 800, 500);
+    const b = node(1, 820, 500);
+    const model = frame([a, b], pointer);
+
+    expect(model.edges.filter((e) => e.opacity > 0)).toHaveLength(0);
+    expect(model.nodes[0].opacity).toBeCloseTo(1 - 300 / 400);
+    expect(model.nodes[1].opacity).toBeCloseTo(1 - 320 / 400);
+  });
+
+  it("hides nodes outside the node radius", () => {
+    const { nodes } = frame([node(0, 950, 950)], pointer);
+    expect(nodes[0].opacity).toBe(0);
+  });
+
+  it("grows nodes up to 35% toward the pointer", () => {
+    const { nodes } = frame([node(0, 500, 500), node(1, 900, 500)], pointer);
+    expect(nodes[0].drawRadius).toBeCloseTo(2 * 1.35);
+    expect(nodes[1].drawRadius).toBeCloseTo(2);
+  });
+
+  it("takes the strongest of several pointers, each weighted by its fade", () => {
+    const near = node(0, 100, 500); // 100 px from the touch, 400 px from the mouse
+    const touch = { ...node(-2, 100, 600), fade: 0.5 };
+    const model = computeFrameModel([near], [pointer, touch], cfg, 1000, 1000, new SpatialGrid());
+    expect(model.nodes[0].opacity).toBeCloseTo(0.75 * 0.5);
+
+    const gone = { ...touch, fade: 0 };
+    const alone = computeFrameModel([near], [pointer, gone], cfg, 1000, 1000, new SpatialGrid());
+    expect(alone.nodes[0].opacity).toBe(0);
+  });
+
+  it("applies the configured falloff to nodes and edges", () => {
+    const a = node(0, 600, 500); // 100 px from the pointer
+    const b = node(1, 600, 550);
+    const linear = frame([a, b], pointer);
+    const quadratic = frame([a, b], pointer, { ...cfg, mouseFalloff: "quadratic" });
+
+    expect(linear.nodes[0].opacity).toBeCloseTo(0.75);
+    expect(quadratic.nodes[0].opacity).toBeCloseTo(1 - 0.25 * 0.25);
+    expect(quadratic.edges[0].opacity).toBeGreaterThan(linear.edges[0].opacity);
+  });
+
+  it("highlights a focus node and its neighbors wherever the pointer is, dimming the rest", () => {
+    const focus = node(0, 950, 50); // far outside both pointer radii
+    const neighbor = node(1, 990, 50);
+    const c = node(2, 500, 500); // at the pointer
+    const d = node(3, 520, 500);
+    const plain = frame([focus, neighbor, c, d], pointer);
+    const model = computeFrameModel(
+      [focus, neighbor, c, d], [pointer], cfg, 1000, 1000, new SpatialGrid(), null, focus
+    );
+
+    const edgeOf = (m: typeof model, n: Node) => m.edges.find((e) => e.a === n || e.b === n)!;
+    expect(edgeOf(model, focus).opacity).toBeCloseTo(0.9);
+    expect(edgeOf(model, c).opacity).toBeCloseTo(edgeOf(plain, c).opacity * 0.25);
+    expect(model.nodes.map((n) => n.opacity)).toEqual([1, 1, 0.25, expect.closeTo(0.95 * 0.25)]);
+    expect(model.nodes[0].drawRadius).toBeCloseTo(2 * 1.35);
+  });
+});
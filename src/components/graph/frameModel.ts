@@ -0,0 +1,197 @@
+import { collectNearbyPairs, type SpatialGrid } from './spatialGrid.ts';
+import { type GraphConfig, type MouseFalloff } from './graphConfig.ts';
+import { type DataLink } from './graphData.ts';
+import { type Node } from './nodes.ts';
+
+export type FrameEdge = {
+  a: Node;
+  b: Node;
+  dist: number;
+  opacity: number; // 0..1, distance fade × pointer proximity
+  // vector from a to b the shortest way round; differs from b - a only for "wrap" edges
+  dx: number;
+  dy: number;
+  wrapped: boolean; // crosses the seam of a "wrap" boundary, drawn as two segments
+};
+
+export type FrameNode = {
+  node: Node;
+  opacity: number; // 0..1, pointer proximity
+  drawRadius: number; // radius including the proximity "pulse"
+};
+
+/**
+ * Everything needed to draw one frame, computed without touching a canvas. Renderers only turn
+ * this into pixels; tests can inspect it directly.
+ */
+export type FrameModel = {
+  width: number;
+  height: number;
+  edges: FrameEdge[];
+  nodes: FrameNode[];
+};
+
+/* Focus (hovered or selected node): its edges are shown at least this strongly, nodes and edges
+  that are neither the focus nor next to it are scaled down by FOCUS_DIM */
+const FOCUS_EDGE_OPACITY = 0.9;
+const FOCUS_DIM = 0.25;
+
+/**
+ * proximityFactor
+ * - fade (0..1) for something `distance` px away from an interaction node
+ * - 1 at the pointer, 0 at or beyond `radius`
+ */
+export function proximityFactor(distance: number, radius: number, falloff: MouseFalloff): number {
+  if (distance >= radius) return 0; // outside effect radius -> fully invisible for that category
+  const t = distance / radius; // 0..1
+  if (falloff === "linear") {
+    return Math.max(0, 1 - t);
+  } else {
+    // quadratic falloff (smoother)
+    return Math.max(0, 1 - t * t);
+  }
+}
+
+/**
+ * computeFrameModel
+ * - computes edges and per-edge / per-node opacities for the current node positions
+ * - uses mouseEffectRadiusEdges and mouseEffectRadiusNodes separately
+ * - edges disappear before nodes (edges use smaller radius)
+ * - with several interaction nodes (mouse plus touches) the closest one wins, each weighted by
+ *   its `fade`
+ * - regular nodes fading in or out (adaptive quality) scale their own opacity and that of their
+ *   edges
+ * - data mode (`links` given): the edges are exactly the links of the dataset and everything is
+ *   shown at full strength, unless `spotlight` applies the same pointer proximity fade
+ * - a `focus` node (hovered or selected) is highlighted with its edge neighbors, the rest dimmed
+ * - pure apart from rebuilding the (reusable) grid
+ */
+export function computeFrameModel(
+  nodes: Node[],
+  interactionNodes: Node[],
+  cfg: GraphConfig,
+  width: number,
+  height: number,
+  grid: SpatialGrid,
+  links?: readonly DataLink[] | null,
+  focus: Node | null = null
+): FrameModel {
+  const rNodes = cfg.mouseEffectRadiusNodes;
+  const rEdges = cfg.mouseEffectRadiusEdges;
+  const rEdges2 = rEdges * rEdges;
+  const linkDistance = cfg.linkDistance;
+  const pointers = interactionNodes.filter((p) => (p.fade ?? 1) > 0);
+
+  // strongest proximity factor over every interaction node
+  const proximity = (n: Node, radius: number) => {
+    let best = 0;
+    for (const p of pointers) {
+      const d = Math.hypot((n.x ?? 0) - (p.x ?? 0), (n.y ?? 0) - (p.y ?? 0));
+      best = Math.max(best, proximityFactor(d, radius, cfg.mouseFalloff) * (p.fade ?? 1));
+    }
+    return best;
+  };
+
+  const wrap = cfg.boundary === "wrap";
+  if (links) {
+    const spotlight = cfg.spotlight;
+    const edges = links.map((link): FrameEdge => {
+      // d3.forceLink has resolved the ids to the nodes themselves
+      const a = link.source as Node;
+      const b = link.target as Node;
+      const rawDx = (b.x ?? 0) - (a.x ?? 0);
+      const rawDy = (b.y ?? 0) - (a.y ?? 0);
+      // the shortest way round across a "wrap" boundary
+      const dx = wrap ? rawDx - width * Math.round(rawDx / width) : rawDx;
+      const dy = wrap ? rawDy - height * Math.round(rawDy / height) : rawDy;
+      const spot = spotlight ? (proximity(a, rEdges) + proximity(b, rEdges)) / 2 : 1;
+      return {
+        a, b, dist: Math.hypot(dx, dy), opacity: cfg.linkOpacity * spot, dx, dy,
+        wrapped: dx !== rawDx || dy !== rawDy,
+      };
+    });
+    const frameNodes = nodes.map((node): FrameNode => {
+      // interaction nodes keep their usual proximity look
+      if (spotlight || node.id < 0) {
+        const pNode = proximity(node, rNodes);
+        return { node, opacity: pNode, drawRadius: (node.radius ?? 1) * (1 + 0.35 * pNode) };
+      }
+      return { node, opacity: 1, drawRadius: node.radius ?? 1 };
+    });
+    return applyFocus({ width, height, edges, nodes: frameNodes }, focus);
+  }
+
+  /* compute edges with the spatial grid: only neighbouring cells are compared, and pairs where
+    both nodes are outside the edge effect radius of every pointer are skipped before they are
+    measured (they would be invisible anyway, see below); the focus node keeps its edges */
+  grid.rebuild(nodes, linkDistance, width, height, wrap);
+  const inEdgeRange = (n: Node) => n === focus || pointers.some((p) => {
+    const dx = (n.x ?? 0) - (p.x ?? 0);
+    const dy = (n.y ?? 0) - (p.y ?? 0);
+    return dx * dx + dy * dy < rEdges2;
+  });
+  const pairs = collectNearbyPairs(
+    grid, nodes, linkDistance, inEdgeRange, wrap ? { width, height } : undefined
+  );
+
+  // regular nodes: fade in / out of adaptive quality (interaction nodes use it as a weight)
+  const visibility = (n: Node) => (n.id >= 0 ? n.fade ?? 1 : 1);
+
+  const edges: FrameEdge[] = [];
+  for (const { a, b, dist, dx, dy } of pairs) {
+    // base opacity from edge distance
+    const baseOpacity = Math.max(0, 1 - dist / linkDistance);
+
+    // proximity influence for edges: average of the two node proximity factors using edge radius
+    const paEdge = proximity(a, rEdges);
+    const pbEdge = proximity(b, rEdges);
+
+    // combine: edges near a pointer get brighter; far edges (outside edge radius) are invisible
+    const opacity = baseOpacity * ((paEdge + pbEdge) / 2) * Math.min(visibility(a), visibility(b));
+
+    // the shortest way round differs from b - a only when the edge crosses the seam
+    const wrapped = wrap &&
+      (Math.abs((b.x ?? 0) - (a.x ?? 0) - dx) > 1 || Math.abs((b.y ?? 0) - (a.y ?? 0) - dy) > 1);
+
+    edges.push({ a, b, dist, opacity, dx, dy, wrapped });
+  }
+
+  const frameNodes: FrameNode[] = nodes.map((node) => {
+    // map proximity to alpha directly (closer => alpha closer to 1)
+    const pNode = proximity(node, rNodes);
+    // scale radius slightly by proximity for a subtle "pulse"
+    const drawRadius = (node.radius ?? 1) * (1 + 0.35 * pNode);
+    return { node, opacity: pNode * visibility(node), drawRadius };
+  });
+
+  return applyFocus({ width, height, edges, nodes: frameNodes }, focus);
+}
+
+// highlight the focus node, its edges and the nodes at their other end; dim everything else
+function applyFocus(frame: FrameModel, focus: Node | null): FrameModel {
+  if (!focus) return frame;
+  const highlighted = new Set<Node>([focus]);
+  for (const edge of frame.edges) {
+    const other = edge.a === focus ? edge.b : edge.b === focus ? edge.a : null;
+    // edges to the pointer itself are left alone
+    if (other && other.id < 0) continue;
+    if (other) {
+      highlighted.add(other);
+      edge.opacity = Math.max(edge.opacity, FOCUS_EDGE_OPACITY);
+    } else {
+      edge.opacity *= FOCUS_DIM;
+    }
+  }
+  for (const frameNode of frame.nodes) {
+    const { node } = frameNode;
+    if (node.id < 0) continue; // interaction nodes keep their look
+    if (highlighted.has(node)) {
+      frameNode.opacity = node.fade ?? 1;
+      // the focus gets the full proximity pulse, also when the pointer is elsewhere
+      if (node === focus) frameNode.drawRadius = (node.radius ?? 1) * 1.35;
+    } else {
+      frameNode.opacity *= FOCUS_DIM;
+    }
+  }
+  return frame;
+}
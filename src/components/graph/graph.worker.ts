@@ -0,0 +1,142 @@
+import { GraphEngine } from './GraphEngine.ts';
+import { type GraphWorkerRequest, type GraphWorkerResponse } from './workerProtocol.ts';
+import { type GraphStats } from './stats.ts';
+
+/*
+Worker side of the offscreen mode (see GraphWorkerClient): the simulation, the edge computation
+and the drawing all run here, on the canvas transferred with `transferControlToOffscreen`.
+The page only forwards what the worker cannot observe itself (size, pointer input, visibility,
+reduced motion, pixel ratio), so main-thread work like hydration or scrolling cannot make the
+animation stutter.
+*/
+
+let engine: GraphEngine | null = null;
+let canvas: OffscreenCanvas | null = null; // transferred once, reused when the page remounts
+let recordCanvas: OffscreenCanvas | null = null; // frames of a recording, sent back as bitmaps
+
+function reply(message: GraphWorkerResponse, transfer: Transferable[] = []) {
+  postMessage(message, { transfer });
+}
+
+function sendStats(stats: GraphStats) {
+  reply({ type: "stats", stats });
+}
+
+// a failed request is answered with its error, so the page's promise rejects instead of hanging
+function replyError(requestId: number, error: unknown) {
+  const message = error instanceof Error ? error.message : String(error);
+  reply({ type: "error", requestId, message });
+}
+
+addEventListener("message", (event: MessageEvent<GraphWorkerRequest>) => {
+  const message = event.data;
+  if (message.type === "init") {
+    canvas = message.canvas ?? canvas;
+    if (!canvas) return;
+    engine?.destroy();
+    engine = new GraphEngine({
+      config: message.config,
+      reducedMotion: message.reducedMotion,
+      data: message.data,
+      nodeCounts: message.nodeCounts,
+      onNodeCountSettled: (tier, nodeCount) => reply({ type: "nodeCountSettled", tier, nodeCount }),
+      onNodeHover: (node) => reply({ type: "nodeHover", node }),
+      onNodeClick: (node) => reply({ type: "nodeClick", node }),
+    });
+    if (message.stats) engine.setStatsListener(sendStats);
+    engine.mountOffscreen(canvas, message.width, message.height, message.devicePixelRatio);
+    reply({ type: "seed", seed: engine.getSeed() });
+    return;
+  }
+  if (!engine) {
+    if ("requestId" in message) replyError(message.requestId, "Graph worker is not initialized");
+    return;
+  }
+  if (message.type === "destroy") {
+    engine.destroy();
+    engine = null;
+    return;
+  }
+
+  try {
+    handleMessage(engine, message);
+  } catch (error) {
+    // other messages have no one to answer, their errors surface in the worker's console
+    if (!("requestId" in message)) throw error;
+    replyError(message.requestId, error);
+  }
+});
+
+// every message but init and destroy, which replace the engine
+function handleMessage(engine: GraphEngine, message: GraphWorkerRequest) {
+  switch (message.type) {
+    case "resize":
+      engine.resize(message.width, message.height);
+      break;
+    case "config":
+      engine.setConfig(message.config, message.transitionMs);
+      reply({ type: "seed", seed: engine.getSeed() });
+      break;
+    case "data":
+      engine.setData(message.data);
+      break;
+    case "reducedMotion":
+      engine.setReducedMotion(message.behavior);
+      break;
+    case "environment":
+      engine.setEnvironment(message.state);
+      break;
+    case "pointerDown":
+      engine.pointerDown(message.input);
+      break;
+    case "pointerMove":
+      engine.pointerMove(message.input);
+      break;
+    case "pointerUp":
+      engine.pointerUp(message.input);
+      break;
+    case "pointerLeave":
+      engine.pointerLeave();
+      break;
+    case "keyDown":
+      engine.keyDown(message.input);
+      break;
+    case "start":
+      engine.start();
+      break;
+    case "stop":
+      engine.stop();
+      break;
+    case "stats":
+      engine.setStatsListener(message.enabled ? sendStats : null);
+      break;
+    case "loadSnapshot":
+      engine.loadSnapshot(message.snapshot);
+      reply({ type: "seed", seed: engine.getSeed() });
+      break;
+    case "getSnapshot":
+      reply({ type: "snapshot", requestId: message.requestId, snapshot: engine.getSnapshot() });
+      break;
+    case "toSvg":
+      reply({ type: "svg", requestId: message.requestId, svg: engine.toSvg() });
+      break;
+    case "captureFrame": {
+      const { requestId } = message;
+      engine.captureFrame(message.options).then(
+        (blob) => reply({ type: "image", requestId, blob }),
+        (error: unknown) => replyError(requestId, error)
+      );
+      break;
+    }
+    case "recordFrame": {
+      const { width, height } = message;
+      if (recordCanvas?.width !== width || recordCanvas.height !== height) {
+        recordCanvas = new OffscreenCanvas(width, height);
+      }
+      engine.recordFrame(recordCanvas.getContext("2d")!, width, height, message.dtMs);
+      const bitmap = recordCanvas.transferToImageBitmap();
+      reply({ type: "bitmap", requestId: message.requestId, bitmap }, [bitmap]);
+      break;
+    }
+  }
+}
@@ -0,0 +1,18 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GRAPH_CONFIG, diffGraphConfig, resolveGraphConfig } from './graphConfig.ts';
+
+describe("diffGraphConfig", () => {
+  it("returns only the fields that differ from the defaults", () => {
+    expect(diffGraphConfig(DEFAULT_GRAPH_CONFIG)).toEqual({});
+    const cfg = resolveGraphConfig({ speed: 10, nodeCount: 40 });
+    expect(diffGraphConfig(cfg)).toEqual({ speed: 10, nodeCount: 40 });
+  });
+
+  it("compares colorWeights by value", () => {
+    const copy = DEFAULT_GRAPH_CONFIG.colorWeights.map((c) => ({ ...c }));
+    expect(diffGraphConfig({ ...DEFAULT_GRAPH_CONFIG, colorWeights: copy })).toEqual({});
+
+    const colorWeights = [{ color: "#ffffff", weight: 1 }];
+    expect(diffGraphConfig({ ...DEFAULT_GRAPH_CONFIG, colorWeights })).toEqual({ colorWeights });
+  });
+});
@@ -0,0 +1,122 @@
+import { type BoundaryMode } from './boundaries.ts';
+import { type PointerForceMode } from './pointerForce.ts';
+
+/** Falloff curve used to fade nodes and edges with distance from the mouse node */
+export type MouseFalloff = "linear" | "quadratic";
+
+export type ColorWeight = {
+  color: string; // #rrggbb
+  weight: number; // share of nodes using this color (weights should sum to 1)
+};
+
+/**
+ * Every tuning value of the Graph animation. All fields are live: changing them on a running
+ * Graph updates the simulation in place instead of regenerating it.
+ */
+export type GraphConfig = {
+  nodeRadius: number; // base radius the radius factors are applied to
+  linkDistance: number; // px threshold for drawing an edge
+  mouseEffectRadiusNodes: number; // nodes remain visible farther
+  mouseEffectRadiusEdges: number; // edges disappear sooner than nodes
+  mouseFalloff: MouseFalloff;
+  dragLerp: number; // smoothing for touch dragging (0 = immediate, 1 = no movement)
+  speed: number; // max initial velocity per axis, px/second (the same on every display)
+  colorWeights: ColorWeight[];
+  radiusMinFactor: number; // node radius bounds as a factor of nodeRadius
+  radiusMaxFactor: number;
+  backgroundColor: string; // shown behind the transparent surface by Graph, filled in exports
+  edgeColor: string; // #rrggbb, alpha is computed per edge
+  cursorColor: string | null; // #rrggbb of the mouse and touch nodes, null = the first node color
+  seed: number | null; // PRNG seed for a reproducible layout, null picks a new one per mount
+  pointerForce: PointerForceMode; // physical reaction of nodes to the pointer
+  pointerPressForce: PointerForceMode | null; // mode while the pointer is held down, null = same
+  pointerForceStrength: number; // px/s² at the pointer, fades linearly to 0 at the radius
+  pointerForceRadius: number; // px
+  boundary: BoundaryMode; // what happens at the canvas edge
+  boundaryMargin: number; // px, width of the "soft" margin
+  boundaryStrength: number; // px/s² at the canvas edge in "soft" mode
+  chargeStrength: number; // data mode: many-body strength between nodes, negative repels
+  linkOpacity: number; // data mode: opacity of links, the spotlight scales it down
+  spotlight: boolean; // data mode: fade nodes and links with distance from the pointer
+  nodeCount: number | null; // fixed number of generated nodes, null picks it from the width
+  adaptiveQuality: boolean; // add or remove nodes at runtime to hold targetFps (nodeCount null)
+  targetFps: number; // frame rate adaptive quality aims for
+  minNodes: number; // node count bounds of adaptive quality
+  maxNodes: number;
+};
+
+/** Defaults reproduce the original hard-coded look */
+export const DEFAULT_GRAPH_CONFIG: GraphConfig = {
+  nodeRadius: 4,
+  linkDistance: 100,
+  mouseEffectRadiusNodes: 700,
+  mouseEffectRadiusEdges: 375,
+  mouseFalloff: "linear",
+  dragLerp: 0.18,
+  speed: 26.4, // 0.44 px per frame at 60Hz
+  colorWeights: [
+    { color: "#3cd962", weight: 0.75 }, // 75%
+    { color: "#FF00FF", weight: 0.18 }, // 18%
+    { color: "#e9fbfd", weight: 0.07 }, // 7%
+  ],
+  radiusMinFactor: 0.10,
+  radiusMaxFactor: 0.2,
+  backgroundColor: "#0a1a1f",
+  edgeColor: "#4cc9e5",
+  cursorColor: null,
+  seed: null,
+  pointerForce: "none",
+  pointerPressForce: null,
+  pointerForceStrength: 900,
+  pointerForceRadius: 200,
+  boundary: "bounce",
+  boundaryMargin: 80,
+  boundaryStrength: 240,
+  chargeStrength: -40,
+  linkOpacity: 0.6,
+  spotlight: false,
+  nodeCount: null,
+  adaptiveQuality: false,
+  targetFps: 60,
+  minNodes: 30,
+  maxNodes: 600,
+};
+
+/** Stack partial configs, later layers win; undefined fields do not hide an earlier value */
+export function mergeGraphConfigs(
+  ...layers: (Partial<GraphConfig> | undefined)[]
+): Partial<GraphConfig> {
+  const merged: Partial<Record<keyof GraphConfig, unknown>> = {};
+  for (const layer of layers) {
+    if (!layer) continue;
+    for (const key of Object.keys(layer) as (keyof GraphConfig)[]) {
+      if (layer[key] !== undefined) merged[key] = layer[key];
+    }
+  }
+  return merged as Partial<GraphConfig>;
+}
+
+/** Merge partial overrides onto the defaults. Undefined fields fall back to the default. */
+export function resolveGraphConfig(overrides?: Partial<GraphConfig>): GraphConfig {
+  const resolved = { ...DEFAULT_GRAPH_CONFIG };
+  if (!overrides) return resolved;
+  for (const key of Object.keys(overrides) as (keyof GraphConfig)[]) {
+    const value = overrides[key];
+    if (value !== undefined) {
+      (resolved as Record<keyof GraphConfig, unknown>)[key] = value;
+    }
+  }
+  return resolved;
+}
+
+/** The fields of `cfg` that differ from DEFAULT_GRAPH_CONFIG, e.g. to paste as a `config` prop */
+export function diffGraphConfig(cfg: GraphConfig): Partial<GraphConfig> {
+  const diff: Partial<Record<keyof GraphConfig, unknown>> = {};
+  for (const key of Object.keys(DEFAULT_GRAPH_CONFIG) as (keyof GraphConfig)[]) {
+    // compare by value, colorWeights is an array of objects
+    if (JSON.stringify(cfg[key]) !== JSON.stringify(DEFAULT_GRAPH_CONFIG[key])) {
+      diff[key] = cfg[key];
+    }
+  }
+  return diff as Partial<GraphConfig>;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createDataLinks,
+  createDataNodes,
+  type GraphData,
+  styleDataNodes,
+  validateGraphData
+} from './graphData.ts';
+import { DEFAULT_GRAPH_CONFIG } from './graphConfig.ts';
+import { createRandom } from './random.ts';
+
+const data: GraphData = {
+  nodes: [
+    { id: "a", group: "x" },
+    { id: "b", group: "y", weight: 4 },
+    { id: "c", group: "x" },
+    { id: 4 },
+  ],
+  links: [
+    { source: "a", target: "b" },
+    { source: "a", target: "c", weight: 2 },
+    { source: "b", target: 4 },
+  ],
+};
+
+const cfg = DEFAULT_GRAPH_CONFIG;
+
+describe("validateGraphData", () => {
+  it("accepts a consistent dataset", () => {
+    expect(() => validateGraphData(data)).not.toThrow();
+  });
+
+  it("rejects repeated ids, unknown link ends and bad weights", () => {
+    expect(() => validateGraphData({ nodes: [{ id: 1 }, { id: 1 }], links: [] }))
+      .toThrow(`node 1 repeats the id "1"`);
+    expect(() => validateGraphData({ nodes: [{ id: 1 }], links: [{ source: 1, target: 2 }] }))
+      .toThrow(`link 0 references unknown node "2"`);
+    expect(() => validateGraphData({ nodes: [{ id: 1, weight: 0 }], links: [] }))
+      .toThrow("expected a positive number");
+    expect(() => validateGraphData({
+      nodes: [{ id: 1 }, { id: 2 }],
+      links: [{ source: 1, target: 2, weight: NaN }],
+    })).toThrow("link 0 has weight NaN");
+  });
+});
+
+describe("createDataNodes", () => {
+  it("creates one resting node per data node, indexed by position and styled by group", () => {
+    const nodes = createDataNodes(data, 200, 100, cfg, createRandom(1));
+    expect(nodes.map((n) => [n.id, n.dataId, n.vx, n.vy])).toEqual([
+      [0, "a", 0, 0], [1, "b", 0, 0], [2, "c", 0, 0], [3, 4, 0, 0],
+    ]);
+    for (const n of nodes) {
+      expect(n.x).toBeGreaterThanOrEqual(0);
+      expect(n.x).toBeLessThanOrEqual(200);
+    }
+
+    // groups take the palette in order of first appearance; area scales with the weight
+    const palette = cfg.colorWeights.map((c) => c.color);
+    expect(nodes.map((n) => n.color)).toEqual([palette[0], palette[1], palette[0], palette[2]]);
+    expect(nodes[0].radius).toBe(cfg.nodeRadius);
+    expect(nodes[1].radius).toBe(cfg.nodeRadius * 2);
+  });
+
+  it("restyles the nodes for a new config", () => {
+    const nodes = createDataNodes(data, 200, 100, cfg, createRandom(1));
+    styleDataNodes(nodes, data, { ...cfg, nodeRadius: 5 });
+    expect(nodes[1].radius).toBe(10);
+  });
+});
+
+describe("createDataLinks", () => {
+  it("links nodes by id with d3's degree-based strength times the weight", () => {
+    const nodes = createDataNodes(data, 200, 100, cfg, createRandom(1));
+    // degrees: a 2, b 2, c 1, 4 1
+    expect(createDataLinks(data, nodes)).toEqual([
+      { source: 0, target: 1, strength: 1 / 2 },
+      { source: 0, target: 2, strength: 2 / 1 },
+      { source: 1, target: 3, strength: 1 / 1 },
+    ]);
+  });
+
+  it("drops links to nodes that are not there", () => {
+    const nodes = createDataNodes(data, 200, 100, cfg, createRandom(1)).slice(0, 3);
+    expect(createDataLinks(data, nodes)).toHaveLength(2);
+  });
+});
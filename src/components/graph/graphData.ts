@@ -0,0 +1,153 @@
+import { type SimulationLinkDatum } from "d3-force";
+import { type GraphConfig } from './graphConfig.ts';
+import { type Node, type NodeData } from './nodes.ts';
+import { type RandomSource } from './random.ts';
+
+export type GraphDataId = string | number;
+
+export type GraphDataNode = {
+  id: GraphDataId;
+  group?: GraphDataId; // nodes of a group share a color of config.colorWeights
+  weight?: number; // node area scales with it (default 1)
+  label?: string; // shown in the hover tooltip
+  data?: NodeData; // further fields for the tooltip
+  color?: string; // #rrggbb, overrides the group color
+  radius?: number; // px, overrides the radius from the weight
+};
+
+export type GraphDataLink = {
+  source: GraphDataId;
+  target: GraphDataId;
+  weight?: number; // link strength scales with it (default 1)
+};
+
+/** A node-link dataset, as d3 examples and most graph tools export it */
+export type GraphData = {
+  nodes: GraphDataNode[];
+  links: GraphDataLink[];
+};
+
+/** A link between two simulation nodes, by their numeric `id` until d3.forceLink resolves it */
+export type DataLink = SimulationLinkDatum<Node> & {
+  strength: number; // d3's default (1 / the smaller degree of both ends) × the link weight
+};
+
+/**
+ * validateGraphData
+ * - throws when node ids repeat or a link names a node that does not exist, both of which would
+ *   otherwise only surface as an exception deep inside d3.forceLink
+ * - weights and radii must be positive finite numbers, colors #rgb or #rrggbb
+ */
+export function validateGraphData(data: GraphData) {
+  const ids = new Set<GraphDataId>();
+  data.nodes.forEach((n, i) => {
+    if (ids.has(n.id)) throw new Error(`Graph data: node ${i} repeats the id "${n.id}"`);
+    ids.add(n.id);
+    checkWeight(n.weight, `node "${n.id}"`);
+    checkRadius(n.radius, `node "${n.id}"`);
+    if (n.color != null && !/^#([0-9a-f]{3}|[0-9a-f]{6})$/i.test(n.color)) {
+      throw new Error(`Graph data: node "${n.id}" has color "${n.color}", expected #rrggbb`);
+    }
+  });
+  data.links.forEach((l, i) => {
+    for (const end of [l.source, l.target]) {
+      if (!ids.has(end)) {
+        throw new Error(`Graph data: link ${i} references unknown node "${end}"`);
+      }
+    }
+    checkWeight(l.weight, `link ${i}`);
+  });
+}
+
+/**
+ * createDataNodes
+ * - one simulation node per data node, at rest at a random position inside the bounds; the link,
+ *   charge and center forces then pull the layout together
+ * - ids are the indices into `data.nodes`, the original id is kept as `dataId`; label and data are
+ *   copied for the tooltip
+ */
+export function createDataNodes(
+  data: GraphData,
+  width: number,
+  height: number,
+  cfg: GraphConfig,
+  random: RandomSource
+): Node[] {
+  const nodes = data.nodes.map((d, i): Node => ({
+    id: i,
+    dataId: d.id,
+    ...(d.label != null && { label: d.label }),
+    ...(d.data && { data: d.data }),
+    x: random() * width,
+    y: random() * height,
+    vx: 0,
+    vy: 0,
+    fx: null,
+    fy: null
+  }));
+  styleDataNodes(nodes, data, cfg);
+  return nodes;
+}
+
+/**
+ * styleDataNodes
+ * - radius from the node weight (area ∝ weight, weight 1 = nodeRadius) and color from the group:
+ *   groups take the colors of config.colorWeights in order of first appearance
+ * - an explicit `radius` or `color` of the data node wins
+ * - also run on config changes, since data nodes are not re-rolled like generated ones
+ */
+export function styleDataNodes(nodes: Node[], data: GraphData, cfg: GraphConfig) {
+  const groups = new Map<GraphDataId | undefined, number>();
+  const byId = new Map<GraphDataId, GraphDataNode>();
+  for (const d of data.nodes) {
+    if (!groups.has(d.group)) groups.set(d.group, groups.size);
+    byId.set(d.id, d);
+  }
+  const palette = cfg.colorWeights;
+  for (const n of nodes) {
+    const d = n.dataId != null ? byId.get(n.dataId) : undefined;
+    if (!d) continue;
+    n.radius = d.radius ?? Math.max(1, cfg.nodeRadius * Math.sqrt(d.weight ?? 1));
+    n.color = d.color ?? palette[groups.get(d.group)! % palette.length].color;
+  }
+}
+
+/**
+ * createDataLinks
+ * - links between the given nodes by numeric id; links to nodes that are not there (e.g. after
+ *   loading a snapshot of another dataset) are dropped
+ * - fresh objects every time: d3.forceLink replaces ids with node objects when it initializes
+ */
+export function createDataLinks(data: GraphData, nodes: readonly Node[]): DataLink[] {
+  const idByDataId = new Map<GraphDataId, number>();
+  for (const n of nodes) if (n.id >= 0 && n.dataId != null) idByDataId.set(n.dataId, n.id);
+
+  const links: (DataLink & { source: number; target: number })[] = [];
+  const degree = new Map<number, number>();
+  for (const l of data.links) {
+    const source = idByDataId.get(l.source);
+    const target = idByDataId.get(l.target);
+    if (source == null || target == null) continue;
+    links.push({ source, target, strength: l.weight ?? 1 });
+    degree.set(source, (degree.get(source) ?? 0) + 1);
+    degree.set(target, (degree.get(target) ?? 0) + 1);
+  }
+  for (const l of links) {
+    l.strength /= Math.min(degree.get(l.source)!, degree.get(l.target)!);
+  }
+  return links;
+}
+
+function checkWeight(weight: number | undefined, owner: string) {
+  if (weight == null) return;
+  if (!Number.isFinite(weight) || weight <= 0) {
+    throw new Error(`Graph data: ${owner} has weight ${weight}, expected a positive number`);
+  }
+}
+
+function checkRadius(radius: number | undefined, owner: string) {
+  if (radius == null) return;
+  if (!Number.isFinite(radius) || radius <= 0) {
+    throw new Error(`Graph data: ${owner} has radius ${radius}, expected a positive number`);
+  }
+}
@@ -0,0 +1,212 @@
+import customBreakpoints from '../../theme/base/breakpoints.ts';
+import { type GraphConfig } from './graphConfig.ts';
+import { type RandomSource } from './random.ts';
+import { type ParsedColor, parseColor } from './color.ts';
+import { type SimulationNodeDatum } from "d3-force";
+import { toStepVelocity } from './timeStep.ts';
+
+/*
+Importing with `import * as d3 from "d3-force"` only brings in the module’s
+runtime exports (functions, constants, etc.). It does not include TypeScript
+types such as `SimulationNodeDatum`, because types exist only at compile time
+and are erased from the generated JavaScript.
+
+To use D3’s type definitions, you must import them explicitly with a type-only
+import, for example:
+
+  import { type SimulationNodeDatum } from "d3-force";
+
+This ensures TypeScript can check your code against D3’s type contracts,
+while keeping the compiled output free of type-related imports.
+
+Note:
+interface SimulationNodeDatum {
+  index?: number;       // assigned by simulation
+  x?: number;           // current x-position
+  y?: number;           // current y-position
+  vx?: number;          // current x-velocity
+  vy?: number;          // current y-velocity
+  fx?: number | null;   // fixed x-position (if pinned)
+  fy?: number | null;   // fixed y-position (if pinned)
+}
+*/
+/** Extra fields of a node shown in its tooltip, e.g. attributes of a graph file */
+export type NodeData = Record<string, string | number | boolean>;
+
+export type Node = SimulationNodeDatum & {
+  id: number; // Personal identifier separate from index
+  radius?: number;
+  color?: string;
+  rgb?: ParsedColor; // `color` parsed when generated; drawFrame re-parses it once `color` changes
+  fade?: number; // 0..1 while a touch node, or a node added or removed by adaptive quality, fades
+  dataId?: string | number; // data mode only: id of the GraphDataNode this node shows
+  label?: string; // tooltip title
+  data?: NodeData; // tooltip fields
+};
+
+/** Breakpoint tier the node count is picked for */
+export type NodeCountTier = "mobile" | "tablet" | "desktop";
+
+export const NODE_COUNT_BY_TIER: Record<NodeCountTier, number> = {
+  mobile: 75,
+  tablet: 150,
+  desktop: 300,
+};
+
+// Determine the tier based on width using your custom breakpoints
+export function getNodeCountTier(width: number): NodeCountTier {
+  const { sm, lg } = customBreakpoints; //object destructuring
+  if (width < sm) return "mobile";
+  if (width < lg) return "tablet";  // sm <= width < lg
+  return "desktop";                 // >= lg
+}
+
+// Determine node count based on width
+export function getNodeCountForWidth(width: number) {
+  return NODE_COUNT_BY_TIER[getNodeCountTier(width)];
+}
+
+// generate nodes with random positions inside current bounds
+export function generateNodes(
+  count: number,
+  width: number,
+  height: number,
+  cfg: GraphConfig,
+  random: RandomSource,
+  firstId = 0
+): Node[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: firstId + i,
+    x: random() * width,
+    y: random() * height,
+    ...pickVelocity(cfg, random),
+    radius: pickRadius(cfg, random),
+    ...nodeColor(pickWeightedColor(cfg, random)),
+    fx: null,
+    fy: null
+  }));
+}
+
+/**
+ * resizeNodes
+ * - rescales node positions from the old bounds into the new ones (keeps the distribution even)
+ * - trims the newest nodes or generates new ones to reach `targetCount`
+ */
+export function resizeNodes(
+  nodes: Node[],
+  fromWidth: number,
+  fromHeight: number,
+  toWidth: number,
+  toHeight: number,
+  targetCount: number,
+  cfg: GraphConfig,
+  random: RandomSource
+): Node[] {
+  const sx = toWidth / fromWidth;
+  const sy = toHeight / fromHeight;
+  for (const n of nodes) {
+    n.x = (n.x ?? 0) * sx;
+    n.y = (n.y ?? 0) * sy;
+  }
+
+  if (nodes.length >= targetCount) return nodes.slice(0, targetCount);
+
+  const nextId = nodes.reduce((max, n) => Math.max(max, n.id), -1) + 1;
+  return nodes.concat(generateNodes(targetCount - nodes.length, toWidth, toHeight, cfg, random, nextId));
+}
+
+// helper: a node color with its pre-parsed channels
+function nodeColor(color: string): Pick<Node, "color" | "rgb"> {
+  return { color, rgb: parseColor(color) };
+}
+
+// helper: pick a color according to weights
+export function pickWeightedColor(cfg: GraphConfig, random: RandomSource): string {
+  const r = random();
+  let acc = 0;
+  for (const cw of cfg.colorWeights) {
+    acc += cw.weight;
+    if (r <= acc) return cw.color;
+  }
+  return cfg.colorWeights[0].color;
+}
+
+// helper: pick a velocity of up to `speed` per axis, in any direction
+function pickVelocity(cfg: GraphConfig, random: RandomSource): Pick<Node, "vx" | "vy"> {
+  return {
+    vx: (random() - 0.5) * 2 * toStepVelocity(cfg.speed),
+    vy: (random() - 0.5) * 2 * toStepVelocity(cfg.speed),
+  };
+}
+
+// helper: pick a radius between the radius factor bounds of nodeRadius
+export function pickRadius(cfg: GraphConfig, random: RandomSource): number {
+  const factor = cfg.radiusMinFactor + random() * (cfg.radiusMaxFactor - cfg.radiusMinFactor);
+  return Math.max(1, cfg.nodeRadius * factor);
+}
+
+export function getMouseRadius(cfg: GraphConfig): number {
+  return Math.max(1, cfg.nodeRadius * 0.15);
+}
+
+// helper: color of the interaction nodes
+function getCursorColor(cfg: GraphConfig): string {
+  return cfg.cursorColor ?? cfg.colorWeights[0].color;
+}
+
+// create a dedicated interaction node: the mouse node (id = -1) or a touch node (id < -1)
+export function createMouseNode(x: number, y: number, cfg: GraphConfig, id = -1): Node {
+  return {
+    id,
+    x,
+    y,
+    vx: 0,
+    vy: 0,
+    radius: getMouseRadius(cfg),
+    ...nodeColor(getCursorColor(cfg)),
+    fx: null,
+    fy: null
+  };
+}
+
+/**
+ * applyConfigChange
+ * - updates existing nodes in place when a config field they were generated from changes
+ * - velocities are rescaled so direction is kept, radii and colors are re-rolled; from speed 0
+ *   there is no direction left, so velocities are re-rolled as well
+ * - everything else is read from the config on every tick and needs no migration
+ */
+export function applyConfigChange(
+  nodes: Node[],
+  prev: GraphConfig,
+  next: GraphConfig,
+  random: RandomSource
+) {
+  const speedRatio = prev.speed > 0 ? next.speed / prev.speed : 1;
+  const restarted = prev.speed <= 0 && next.speed > 0;
+  const radiusChanged =
+    prev.nodeRadius !== next.nodeRadius ||
+    prev.radiusMinFactor !== next.radiusMinFactor ||
+    prev.radiusMaxFactor !== next.radiusMaxFactor;
+  // compare by value: hosts commonly pass a fresh colorWeights array on every render
+  const colorsChanged = JSON.stringify(prev.colorWeights) !== JSON.stringify(next.colorWeights);
+  const cursorChanged = getCursorColor(prev) !== getCursorColor(next);
+
+  if (speedRatio === 1 && !restarted && !radiusChanged && !colorsChanged && !cursorChanged) return;
+
+  for (const n of nodes) {
+    if (n.id < 0) {
+      n.radius = getMouseRadius(next);
+      Object.assign(n, nodeColor(getCursorColor(next)));
+      continue;
+    }
+    if (restarted) {
+      Object.assign(n, pickVelocity(next, random));
+    } else if (speedRatio !== 1) {
+      n.vx = (n.vx ?? 0) * speedRatio;
+      n.vy = (n.vy ?? 0) * speedRatio;
+    }
+    if (radiusChanged) n.radius = pickRadius(next, random);
+    if (colorsChanged) Object.assign(n, nodeColor(pickWeightedColor(next, random)));
+  }
+}
@@ -0,0 +1,103 @@
+import { type GraphDataNode } from '../graphData.ts';
+
+// the named colors graph tools commonly write (CSS / X11 names), everything else must be hex
+const NAMED_COLORS = new Map<string, string>(Object.entries({
+  black: "#000000",
+  white: "#ffffff",
+  gray: "#808080",
+  grey: "#808080",
+  lightgray: "#d3d3d3",
+  lightgrey: "#d3d3d3",
+  darkgray: "#a9a9a9",
+  darkgrey: "#a9a9a9",
+  red: "#ff0000",
+  darkred: "#8b0000",
+  green: "#008000",
+  lightgreen: "#90ee90",
+  darkgreen: "#006400",
+  lime: "#00ff00",
+  blue: "#0000ff",
+  lightblue: "#add8e6",
+  darkblue: "#00008b",
+  navy: "#000080",
+  cyan: "#00ffff",
+  magenta: "#ff00ff",
+  yellow: "#ffff00",
+  gold: "#ffd700",
+  orange: "#ffa500",
+  purple: "#800080",
+  violet: "#ee82ee",
+  pink: "#ffc0cb",
+  brown: "#a52a2a",
+  teal: "#008080",
+  olive: "#808000",
+  maroon: "#800000",
+}));
+
+/**
+ * toHexColor
+ * - normalizes "#rgb", "#rrggbb", "#rrggbbaa" (alpha dropped), "rgb(r, g, b)" and common color
+ *   names to the "#rrggbb" the renderers expect
+ * - returns undefined for anything else, so an unknown color falls back to the group palette
+ */
+export function toHexColor(value: string): string | undefined {
+  const v = value.trim().toLowerCase();
+  if (/^#[0-9a-f]{3}$/.test(v)) return `#${v[1]}${v[1]}${v[2]}${v[2]}${v[3]}${v[3]}`;
+  if (/^#[0-9a-f]{6}([0-9a-f]{2})?$/.test(v)) return v.slice(0, 7);
+  const rgb = /^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(,[^)]*)?\)$/.exec(v);
+  if (rgb) return rgbToHex(Number(rgb[1]), Number(rgb[2]), Number(rgb[3]));
+  return NAMED_COLORS.get(v);
+}
+
+/** "#rrggbb" from 0..255 channels (clamped) */
+export function rgbToHex(r: number, g: number, b: number): string {
+  const hex = (c: number) => Math.max(0, Math.min(255, Math.round(c))).toString(16);
+  return `#${[r, g, b].map((c) => hex(c).padStart(2, "0")).join("")}`;
+}
+
+/** A positive finite number, or undefined */
+export function toPositiveNumber(value: string): number | undefined {
+  const n = Number(value.trim());
+  return value.trim() !== "" && Number.isFinite(n) && n > 0 ? n : undefined;
+}
+
+/**
+ * applyNodeAttribute
+ * - maps one named attribute of a graph file onto a data node; names are matched case-insensitively
+ *   and cover what Gephi, NetworkX and Graphviz write
+ * - color → color, size / radius → radius (px), label / name → label, group / community /
+ *   modularity_class → group, weight → weight; anything else is ignored
+ * - values that do not fit (an unknown color, a negative size) are ignored as well
+ */
+export function applyNodeAttribute(node: GraphDataNode, name: string, value: string) {
+  switch (name.toLowerCase()) {
+    case "color":
+    case "colour":
+    case "fillcolor": {
+      const color = toHexColor(value);
+      if (color) node.color = color;
+      break;
+    }
+    case "size":
+    case "radius": {
+      const radius = toPositiveNumber(value);
+      if (radius != null) node.radius = radius;
+      break;
+    }
+    case "label":
+    case "name":
+      node.label = value;
+      break;
+    case "group":
+    case "community":
+    case "modularity_class":
+    case "cluster":
+      node.group = value;
+      break;
+    case "weight": {
+      const weight = toPositiveNumber(value);
+      if (weight != null) node.weight = weight;
+      break;
+    }
+  }
+}
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseCSV } from './csv.ts';
+
+describe("parseCSV", () => {
+  it("reads an edge list with a header, quoted cells, comments and weights", () => {
+    const text = [
+      "weight;to;from",
+      "2;b;a",
+      "# a comment",
+      "",
+      `;"c ""quoted""";a`,
+    ].join("\r\n");
+    expect(parseCSV(text)).toEqual({
+      nodes: [{ id: "a" }, { id: "b" }, { id: "c \"quoted\"" }],
+      links: [
+        { source: "a", target: "b", weight: 2 },
+        { source: "a", target: "c \"quoted\"" },
+      ],
+    });
+  });
+
+  it("reads the columns in order without a header", () => {
+    expect(parseCSV("x\ty\t0.5\n").links).toEqual([{ source: "x", target: "y", weight: 0.5 }]);
+  });
+
+  it("reports the line of a malformed row", () => {
+    expect(() => parseCSV("a,b\n\"multi\nline\",c\nd,\n")).toThrow(
+      "Line 4: expected a source and a target"
+    );
+    expect(() => parseCSV("a,b,1\nb,c,-1\n")).toThrow(
+      `Line 2: weight "-1" is not a positive number`
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { type GraphData, type GraphDataLink, type GraphDataNode } from '../graphData.ts';
+import { createLineLocator, GraphParseError } from './parseError.ts';
+
+// header names recognized per column, compared in lower case
+const SOURCE_HEADERS = ["source", "from", "src", "node1"];
+const TARGET_HEADERS = ["target", "to", "dst", "node2"];
+const WEIGHT_HEADERS = ["weight", "value"];
+
+type CsvRecord = {
+  cells: string[];
+  line: number; // line the record starts on (a quoted cell may span lines)
+};
+
+/**
+ * parseCSV
+ * - an edge list with one link per row: source, target and an optional third weight column
+ * - the delimiter is detected from the first row (tab, semicolon or comma); cells may be quoted
+ *   with "" escapes
+ * - an optional header row (source/target, from/to, ...) is recognized and then decides the
+ *   column order; blank rows and rows starting with # are skipped
+ * - nodes are created in order of first appearance
+ * - throws GraphParseError with the line of a row without two ids or with an invalid weight
+ */
+export function parseCSV(text: string): GraphData {
+  const records = readRecords(text.replace(/^\uFEFF/, ""));
+
+  let columns = { source: 0, target: 1, weight: 2 };
+  const header = records[0]?.cells.map((cell) => cell.trim().toLowerCase()) ?? [];
+  const find = (names: string[]) => header.findIndex((h) => names.includes(h));
+  if (find(SOURCE_HEADERS) >= 0 && find(TARGET_HEADERS) >= 0) {
+    columns = {
+      source: find(SOURCE_HEADERS),
+      target: find(TARGET_HEADERS),
+      weight: find(WEIGHT_HEADERS),
+    };
+    records.shift();
+  }
+
+  const nodes = new Map<string, GraphDataNode>();
+  const links: GraphDataLink[] = [];
+  for (const { cells, line } of records) {
+    const source = cells[columns.source]?.trim();
+    const target = cells[columns.target]?.trim();
+    if (!source || !target) throw new GraphParseError("expected a source and a target", line);
+    for (const id of [source, target]) if (!nodes.has(id)) nodes.set(id, { id });
+
+    const link: GraphDataLink = { source, target };
+    const weightCell = columns.weight >= 0 ? cells[columns.weight]?.trim() : undefined;
+    if (weightCell) {
+      const weight = Number(weightCell);
+      if (!Number.isFinite(weight) || weight <= 0) {
+        throw new GraphParseError(`weight "${weightCell}" is not a positive number`, line);
+      }
+      link.weight = weight;
+    }
+    links.push(link);
+  }
+  return { nodes: [...nodes.values()], links };
+}
+
+// split into records of cells, honoring quotes; blank and # rows are dropped
+function readRecords(text: string): CsvRecord[] {
+  const lineAt = createLineLocator(text);
+  const firstLine = text.slice(0, text.search(/\r?\n|$/));
+  const delimiter = firstLine.includes("\t") ? "\t" : firstLine.includes(";") ? ";" : ",";
+
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = "";
+  let recordStart = 0;
+  let i = 0;
+
+  const endRecord = () => {
+    cells.push(cell);
+    const blank = cells.length === 1 && cells[0].trim() === "";
+    if (!blank && !cells[0].trimStart().startsWith("#")) {
+      records.push({ cells, line: lineAt(recordStart) });
+    }
+    cells = [];
+    cell = "";
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+    if (c === "\"" && cell.trim() === "") {
+      // quoted cell: runs to the closing quote, "" is a literal quote
+      const start = i;
+      cell = "";
+      i++;
+      for (;;) {
+        if (i >= text.length) throw new GraphParseError("unterminated quoted cell", lineAt(start));
+        if (text[i] === "\"") {
+          if (text[i + 1] !== "\"") break;
+          i++;
+        }
+        cell += text[i];
+        i++;
+      }
+      i++;
+    } else if (c === delimiter) {
+      cells.push(cell);
+      cell = "";
+      i++;
+    } else if (c === "\n" || c === "\r") {
+      endRecord();
+      i += c === "\r" && text[i + 1] === "\n" ? 2 : 1;
+      recordStart = i;
+    } else {
+      cell += c;
+      i++;
+    }
+  }
+  if (cell !== "" || cells.length > 0) endRecord();
+  return records;
+}
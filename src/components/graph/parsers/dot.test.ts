@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { parseDOT } from './dot.ts';
+
+describe("parseDOT", () => {
+  it("reads node and edge statements, chains, groups, defaults and subgraphs", () => {
+    const text = `// a comment
+strict digraph "G" {
+  rankdir = LR;
+  node [color=red];
+  a [label="A " + "node", width=0.5];
+  a -> b -> { c d } [weight=2];
+  subgraph cluster_0 {
+    node [group=inner];
+    e;
+  }
+  e -- a:port
+}`;
+    expect(parseDOT(text)).toEqual({
+      nodes: [
+        { id: "a", color: "#ff0000", label: "A node", radius: 18 },
+        { id: "b", color: "#ff0000" },
+        { id: "c", color: "#ff0000" },
+        { id: "d", color: "#ff0000" },
+        { id: "e", color: "#ff0000", group: "inner" },
+      ],
+      links: [
+        { source: "a", target: "b", weight: 2 },
+        { source: "b", target: "c", weight: 2 },
+        { source: "b", target: "d", weight: 2 },
+        { source: "e", target: "a" },
+      ],
+    });
+  });
+
+  it("takes quoted and HTML keywords for node names", () => {
+    const text = `digraph { "node" -> "edge"; "graph" [label=x]; <subgraph> -- "strict" }`;
+    expect(parseDOT(text)).toEqual({
+      nodes: [
+        { id: "node" },
+        { id: "edge" },
+        { id: "graph", label: "x" },
+        { id: "subgraph" },
+        { id: "strict" },
+      ],
+      links: [
+        { source: "node", target: "edge" },
+        { source: "subgraph", target: "strict" },
+      ],
+    });
+    expect(() => parseDOT(`"digraph" { a }`)).toThrow(`Line 1: expected "graph" or "digraph"`);
+  });
+
+  it("reports the line of the unexpected token", () => {
+    expect(() => parseDOT("graph {\n  a -- b\n  c -- ;\n}")).toThrow(
+      `Line 3: expected an ID, found ";"`
+    );
+    expect(() => parseDOT("graph {\n  a -- b\n")).toThrow(`Line 2: expected "}"`);
+    expect(() => parseDOT("graph {\n  a [label=\"open\n}")).toThrow("Line 2: unterminated string");
+  });
+});
@@ -0,0 +1,298 @@
+import { type GraphData, type GraphDataLink, type GraphDataNode } from '../graphData.ts';
+import { applyNodeAttribute, toPositiveNumber } from './attributes.ts';
+import { createLineLocator, GraphParseError } from './parseError.ts';
+
+/** Points per inch, DOT sizes are in inches */
+const POINTS_PER_INCH = 72;
+
+type Token = {
+  kind: "id" | "punct";
+  value: string;
+  line: number;
+  quoted?: boolean; // a "quoted" or <HTML> ID, which is never a keyword
+};
+
+type Attributes = Map<string, string>;
+
+// attribute defaults set by `node [...]` / `edge [...]`, scoped to a (sub)graph
+type Scope = {
+  node: Attributes;
+  edge: Attributes;
+};
+
+/**
+ * parseDOT
+ * - a practical subset of Graphviz DOT: `strict`, `graph` / `digraph`, node and edge statements
+ *   (edge chains `a -> b -> c`, `{ a b }` groups as endpoints), `node` / `edge` default
+ *   attributes, subgraphs and clusters (flattened, defaults scoped to them), `id = id` graph
+ *   attributes (ignored); ports are accepted and dropped
+ * - IDs: identifiers, numerals, "quoted" strings (with `+` concatenation) and <HTML> strings;
+ *   `//`, `/* *\/` and `#` line comments are skipped
+ * - node attributes: label, color / fillcolor, group, weight (see applyNodeAttribute), and width in
+ *   inches as the node diameter; edge attribute: weight
+ * - throws GraphParseError with the line of the unexpected token
+ */
+export function parseDOT(text: string): GraphData {
+  const tokens = tokenize(text);
+  let pos = 0;
+
+  const peek = (): Token | undefined => tokens[pos];
+  const lastLine = () => tokens[tokens.length - 1]?.line ?? 1;
+  function fail(message: string, token = peek()): never {
+    throw new GraphParseError(message, token?.line ?? lastLine());
+  }
+  const isPunct = (value: string, token = peek()) =>
+    token?.kind === "punct" && token.value === value;
+  // keywords are case-insensitive and only ever unquoted: "node" is a node named node
+  const isKeyword = (keyword: string, token = peek()) =>
+    token?.kind === "id" && !token.quoted && token.value.toLowerCase() === keyword;
+  function expect(value: string): Token {
+    const token = peek();
+    if (!isPunct(value, token)) fail(`expected "${value}"${found(token)}`);
+    pos++;
+    return token!;
+  }
+  function expectId(): Token {
+    const token = peek();
+    if (token?.kind !== "id") fail(`expected an ID${found(token)}`);
+    pos++;
+    return token;
+  }
+
+  const nodes = new Map<string, GraphDataNode>();
+  const links: GraphDataLink[] = [];
+
+  // declare (or update) a node; attributes of the statement override the scope defaults
+  const touchNode = (id: string, scope: Scope, attributes?: Attributes) => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id };
+      nodes.set(id, node);
+      applyAttributes(node, scope.node);
+    }
+    if (attributes) applyAttributes(node, attributes);
+    return node;
+  };
+
+  // [a=b, c=d; e] [f=g] ...
+  const parseAttributeLists = (): Attributes => {
+    const attributes: Attributes = new Map();
+    while (isPunct("[")) {
+      pos++;
+      while (!isPunct("]")) {
+        const name = expectId().value;
+        let value = "true";
+        if (isPunct("=")) {
+          pos++;
+          value = expectId().value;
+        }
+        attributes.set(name, value);
+        if (isPunct(",") || isPunct(";")) pos++;
+      }
+      expect("]");
+    }
+    return attributes;
+  };
+
+  // node_id: ID [: port [: compass]], the port is dropped
+  const parseNodeId = () => {
+    const id = expectId().value;
+    while (isPunct(":")) {
+      pos++;
+      expectId();
+    }
+    return id;
+  };
+
+  // an edge endpoint: a node id or a { group }, returns the node ids it stands for
+  const parseEndpoint = (scope: Scope): string[] => {
+    if (isPunct("{") || isKeyword("subgraph")) return parseSubgraph(scope);
+    const id = parseNodeId();
+    touchNode(id, scope);
+    return [id];
+  };
+
+  const parseStatements = (scope: Scope): string[] => {
+    const declared: string[] = [];
+    while (peek() && !isPunct("}")) {
+      const token = peek()!;
+      if (isKeyword("node") || isKeyword("edge") || isKeyword("graph")) {
+        const keyword = token.value.toLowerCase();
+        pos++;
+        const attributes = parseAttributeLists();
+        if (keyword === "node") for (const [k, v] of attributes) scope.node.set(k, v);
+        else if (keyword === "edge") for (const [k, v] of attributes) scope.edge.set(k, v);
+      } else if (token.kind === "id" && isPunct("=", tokens[pos + 1])) {
+        // graph attribute: id = id
+        pos += 2;
+        expectId();
+      } else {
+        const subgraph = isPunct("{") || isKeyword("subgraph");
+        const first = parseEndpoint(scope);
+        declared.push(...first);
+        if (isPunct("->") || isPunct("--")) {
+          // edge chain: every endpoint connects to the next
+          const chain = [first];
+          while (isPunct("->") || isPunct("--")) {
+            pos++;
+            const next = parseEndpoint(scope);
+            declared.push(...next);
+            chain.push(next);
+          }
+          const attributes = new Map([...scope.edge, ...parseAttributeLists()]);
+          const weight = toPositiveNumber(attributes.get("weight") ?? "");
+          for (let i = 1; i < chain.length; i++) {
+            for (const source of chain[i - 1]) {
+              for (const target of chain[i]) {
+                links.push(weight != null ? { source, target, weight } : { source, target });
+              }
+            }
+          }
+        } else if (!subgraph) {
+          // node statement
+          touchNode(first[0], scope, parseAttributeLists());
+        }
+      }
+      if (isPunct(";") || isPunct(",")) pos++;
+    }
+    return declared;
+  };
+
+  // [subgraph [ID]] { statements }: flattened, with a copy of the enclosing defaults
+  function parseSubgraph(scope: Scope): string[] {
+    if (isKeyword("subgraph")) {
+      pos++;
+      if (peek()?.kind === "id") pos++;
+    }
+    expect("{");
+    const declared = parseStatements({ node: new Map(scope.node), edge: new Map(scope.edge) });
+    expect("}");
+    return declared;
+  }
+
+  // graph: [strict] (graph | digraph) [ID] { statements }
+  if (isKeyword("strict")) pos++;
+  if (!isKeyword("graph") && !isKeyword("digraph")) fail("expected \"graph\" or \"digraph\"");
+  pos++;
+  if (peek()?.kind === "id") pos++;
+  expect("{");
+  parseStatements({ node: new Map(), edge: new Map() });
+  expect("}");
+  if (peek()) fail(`unexpected "${peek()!.value}" after the graph`);
+
+  return { nodes: [...nodes.values()], links };
+}
+
+// node attributes of DOT, including its width in inches (the node diameter)
+function applyAttributes(node: GraphDataNode, attributes: Attributes) {
+  for (const [name, value] of attributes) {
+    if (name === "width") {
+      const width = toPositiveNumber(value);
+      if (width != null) node.radius = (width * POINTS_PER_INCH) / 2;
+    } else if (name === "label" && value === "\\N") {
+      node.label = node.id as string; // \N stands for the node name
+    } else {
+      applyNodeAttribute(node, name, value);
+    }
+  }
+}
+
+/**
+ * tokenize
+ * - splits DOT source into IDs and punctuation, each with its line; quoted and HTML IDs are marked
+ *   so they are not taken for keywords
+ * - quoted strings joined with `+` become a single ID; escaped quotes and line continuations are
+ *   resolved
+ */
+function tokenize(text: string): Token[] {
+  const lineAt = createLineLocator(text);
+  const tokens: Token[] = [];
+  let joinNext = false; // a `+` is waiting for the next quoted string
+  let i = 0;
+  const push = (token: Token) => {
+    if (joinNext) throw new GraphParseError("\"+\" must join two quoted strings", token.line);
+    tokens.push(token);
+  };
+
+  while (i < text.length) {
+    const c = text[i];
+    const start = i;
+    const atLineStart = i === 0 || text[i - 1] === "\n";
+
+    if (/\s/.test(c)) {
+      i++;
+    } else if (c === "/" && text[i + 1] === "/") {
+      i = lineEnd(text, i);
+    } else if (c === "#" && atLineStart) {
+      i = lineEnd(text, i); // preprocessor output
+    } else if (c === "/" && text[i + 1] === "*") {
+      const end = text.indexOf("*/", i + 2);
+      if (end < 0) throw new GraphParseError("unterminated comment", lineAt(start));
+      i = end + 2;
+    } else if (c === "-" && (text[i + 1] === ">" || text[i + 1] === "-")) {
+      push({ kind: "punct", value: text.slice(i, i + 2), line: lineAt(start) });
+      i += 2;
+    } else if ("{}[];,=:".includes(c)) {
+      push({ kind: "punct", value: c, line: lineAt(start) });
+      i++;
+    } else if (c === "\"") {
+      let value = "";
+      i++;
+      for (;;) {
+        if (i >= text.length) throw new GraphParseError("unterminated string", lineAt(start));
+        const ch = text[i];
+        if (ch === "\"") break;
+        if (ch === "\\" && text[i + 1] === "\"") {
+          value += "\"";
+          i += 2;
+        } else if (ch === "\\" && text[i + 1] === "\n") {
+          i += 2; // line continuation
+        } else {
+          value += ch;
+          i++;
+        }
+      }
+      i++;
+      if (joinNext) {
+        tokens[tokens.length - 1].value += value; // "a" + "b"
+        joinNext = false;
+      } else {
+        tokens.push({ kind: "id", value, line: lineAt(start), quoted: true });
+      }
+    } else if (c === "+") {
+      if (tokens[tokens.length - 1]?.kind !== "id" || joinNext) {
+        throw new GraphParseError("unexpected \"+\"", lineAt(start));
+      }
+      joinNext = true;
+      i++;
+    } else if (c === "<") {
+      let depth = 0;
+      for (; i < text.length; i++) {
+        if (text[i] === "<") depth++;
+        else if (text[i] === ">" && --depth === 0) break;
+      }
+      if (i >= text.length) throw new GraphParseError("unterminated HTML string", lineAt(start));
+      i++;
+      push({ kind: "id", value: text.slice(start + 1, i - 1), line: lineAt(start), quoted: true });
+    } else {
+      const match = /^(-?(\.\d+|\d+(\.\d*)?)|[A-Za-z_\u0080-\uffff][\w\u0080-\uffff]*)/.exec(
+        text.slice(i, i + 512)
+      );
+      if (!match) throw new GraphParseError(`unexpected character "${c}"`, lineAt(start));
+      push({ kind: "id", value: match[0], line: lineAt(start) });
+      i += match[0].length;
+    }
+  }
+
+  if (joinNext) throw new GraphParseError("\"+\" must join two quoted strings", lineAt(i));
+  return tokens;
+}
+
+function found(token: Token | undefined) {
+  return token ? `, found "${token.value}"` : " at the end of the input";
+}
+
+function lineEnd(text: string, from: number) {
+  const end = text.indexOf("\n", from);
+  return end < 0 ? text.length : end;
+}
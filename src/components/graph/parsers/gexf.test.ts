@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseGEXF } from './gexf.ts';
+
+describe("parseGEXF", () => {
+  it("reads labels, attvalues, viz colors and edge weights as Gephi exports them", () => {
+    const text = `<?xml version="1.0" encoding="UTF-8"?>
+<gexf xmlns="http://gexf.net/1.3" xmlns:viz="http://gexf.net/1.3/viz" version="1.3">
+  <graph defaultedgetype="undirected">
+    <attributes class="node">
+      <attribute id="0" title="modularity_class" type="integer"/>
+    </attributes>
+    <nodes>
+      <node id="n0" label="Zero">
+        <attvalues><attvalue for="0" value="2"/></attvalues>
+        <viz:color r="255" g="128" b="0"/>
+      </node>
+      <node id="n1" label="One"/>
+    </nodes>
+    <edges>
+      <edge id="e0" source="n0" target="n1" weight="3"/>
+    </edges>
+  </graph>
+</gexf>`;
+    expect(parseGEXF(text)).toEqual({
+      nodes: [
+        { id: "n0", label: "Zero", group: "2", color: "#ff8000" },
+        { id: "n1", label: "One" },
+      ],
+      links: [{ source: "n0", target: "n1", weight: 3 }],
+    });
+  });
+
+  it("reports the line of a node declared twice", () => {
+    const text = [
+      `<gexf>`,
+      `  <graph>`,
+      `    <nodes>`,
+      `      <node id="a"/>`,
+      `      <node id="a"/>`,
+      `    </nodes>`,
+      `  </graph>`,
+      `</gexf>`,
+    ].join("\n");
+    expect(() => parseGEXF(text)).toThrow(`Line 5: node "a" is already declared on line 4`);
+  });
+});
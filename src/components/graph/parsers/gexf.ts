@@ -0,0 +1,123 @@
+import { type GraphData, type GraphDataLink, type GraphDataNode } from '../graphData.ts';
+import { applyNodeAttribute, rgbToHex, toHexColor, toPositiveNumber } from './attributes.ts';
+import { childrenNamed, localName, parseXml, type XmlElement } from './xml.ts';
+import { GraphParseError } from './parseError.ts';
+
+// an <attribute> declaration: its title and default value, by id
+type GexfAttribute = {
+  title: string;
+  fallback: string | null;
+};
+
+/**
+ * parseGEXF
+ * - GEXF 1.x as exported by Gephi: <nodes> and <edges> of the <graph>, nested nodes flattened
+ * - the node `label` and <attvalues> go through applyNodeAttribute (by attribute title), the viz
+ *   module's <viz:color> and <viz:size> become the node color and radius, and the edge `weight`
+ *   (attribute or attvalue) becomes the link weight
+ * - throws GraphParseError with the line of the offending element
+ */
+export function parseGEXF(text: string): GraphData {
+  const root = parseXml(text);
+  if (localName(root) !== "gexf") {
+    throw new GraphParseError(`expected <gexf>, found <${root.name}>`, root.line);
+  }
+  const graph = childrenNamed(root, "graph")[0];
+  if (!graph) throw new GraphParseError("no <graph> in the document", root.line);
+
+  const declarations = {
+    node: new Map<string, GexfAttribute>(),
+    edge: new Map<string, GexfAttribute>(),
+  };
+  for (const group of childrenNamed(graph, "attributes")) {
+    const domain = group.attributes.class === "edge" ? declarations.edge : declarations.node;
+    for (const attribute of childrenNamed(group, "attribute")) {
+      const id = attribute.attributes.id;
+      if (id == null) throw new GraphParseError("<attribute> without an id", attribute.line);
+      const fallback = childrenNamed(attribute, "default")[0];
+      domain.set(id, {
+        title: attribute.attributes.title ?? id,
+        fallback: fallback ? fallback.text.trim() : null,
+      });
+    }
+  }
+
+  // every attribute value of an element, declared defaults first
+  const readValues = (element: XmlElement, domain: Map<string, GexfAttribute>) => {
+    const values = new Map<string, string>();
+    for (const attribute of domain.values()) {
+      if (attribute.fallback != null) values.set(attribute.title, attribute.fallback);
+    }
+    for (const container of childrenNamed(element, "attvalues")) {
+      for (const value of childrenNamed(container, "attvalue")) {
+        // GEXF 1.1 used `id` instead of `for`
+        const ref = value.attributes.for ?? value.attributes.id ?? "";
+        const attribute = domain.get(ref);
+        if (!attribute) {
+          throw new GraphParseError(`<attvalue> refers to unknown attribute "${ref}"`, value.line);
+        }
+        values.set(attribute.title, value.attributes.value ?? "");
+      }
+    }
+    return values;
+  };
+
+  const nodes: GraphDataNode[] = [];
+  const nodeLines = new Map<string, number>();
+  const visitNodes = (container: XmlElement) => {
+    for (const element of childrenNamed(container, "node")) {
+      const id = element.attributes.id;
+      if (id == null) throw new GraphParseError("<node> without an id", element.line);
+      const previous = nodeLines.get(id);
+      if (previous != null) {
+        const message = `node "${id}" is already declared on line ${previous}`;
+        throw new GraphParseError(message, element.line);
+      }
+      nodeLines.set(id, element.line);
+      nodes.push(toNode(element, readValues(element, declarations.node)));
+      // hierarchical GEXF: a node may contain <nodes>
+      for (const nested of childrenNamed(element, "nodes")) visitNodes(nested);
+    }
+  };
+  for (const container of childrenNamed(graph, "nodes")) visitNodes(container);
+
+  const links: GraphDataLink[] = [];
+  for (const container of childrenNamed(graph, "edges")) {
+    for (const element of childrenNamed(container, "edge")) {
+      const { source, target } = element.attributes;
+      if (source == null || target == null) {
+        throw new GraphParseError("<edge> needs a source and a target", element.line);
+      }
+      for (const end of [source, target]) {
+        if (!nodeLines.has(end)) {
+          throw new GraphParseError(`edge refers to undeclared node "${end}"`, element.line);
+        }
+      }
+      const values = readValues(element, declarations.edge);
+      const weight = toPositiveNumber(element.attributes.weight ?? values.get("weight") ?? "");
+      const link: GraphDataLink = { source, target };
+      if (weight != null) link.weight = weight;
+      links.push(link);
+    }
+  }
+  return { nodes, links };
+}
+
+function toNode(element: XmlElement, values: Map<string, string>): GraphDataNode {
+  const node: GraphDataNode = { id: element.attributes.id };
+  for (const [name, value] of values) applyNodeAttribute(node, name, value);
+  if (element.attributes.label != null) node.label = element.attributes.label;
+
+  // viz module: <viz:color r g b (a)> or <viz:color hex>, <viz:size value>
+  const color = childrenNamed(element, "color")[0];
+  if (color) {
+    const { r, g, b, hex } = color.attributes;
+    const rgb = [r, g, b].map(Number);
+    if (hex != null) node.color = toHexColor(hex) ?? node.color;
+    else if (rgb.every(Number.isFinite)) node.color = rgbToHex(rgb[0], rgb[1], rgb[2]);
+  }
+  const size = childrenNamed(element, "size")[0];
+  const radius = size ? toPositiveNumber(size.attributes.value ?? "") : undefined;
+  if (radius != null) node.radius = radius;
+  return node;
+}
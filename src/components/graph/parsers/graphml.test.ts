@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parseGraphML } from './graphml.ts';
+import { GraphParseError } from './parseError.ts';
+
+describe("parseGraphML", () => {
+  it("reads nodes with their data and weighted edges", () => {
+    const text = `<?xml version="1.0" encoding="UTF-8"?>
+<graphml xmlns="http://graphml.graphdrawing.org/xmlns">
+  <key id="d0" for="node" attr.name="label" attr.type="string"/>
+  <key id="d1" for="node" attr.name="modularity_class" attr.type="int">
+    <default>0</default>
+  </key>
+  <key id="w" for="edge" attr.name="weight" attr.type="double"/>
+  <graph edgedefault="undirected">
+    <edge source="a" target="b"><data key="w">2.5</data></edge>
+    <node id="a"><data key="d0">Alpha &amp; co</data></node>
+    <node id="b"><data key="d1">3</data></node>
+  </graph>
+</graphml>`;
+    expect(parseGraphML(text)).toEqual({
+      nodes: [{ id: "a", label: "Alpha & co", group: "0" }, { id: "b", group: "3" }],
+      links: [{ source: "a", target: "b", weight: 2.5 }],
+    });
+  });
+
+  it("reports the line of an edge to an undeclared node", () => {
+    const text = [
+      `<graphml>`,
+      `  <graph>`,
+      `    <node id="a"/>`,
+      `    <edge source="a" target="z"/>`,
+      `  </graph>`,
+      `</graphml>`,
+    ].join("\n");
+    expect(() => parseGraphML(text)).toThrow(GraphParseError);
+    expect(() => parseGraphML(text)).toThrow(`Line 4: edge refers to undeclared node "z"`);
+  });
+
+  it("reports the line of a mismatched end tag", () => {
+    const text = `<graphml>\n  <graph>\n    <node id="a">\n  </graph>\n</graphml>`;
+    expect(() => parseGraphML(text)).toThrow("Line 4: </graph> does not close <node> from line 3");
+  });
+});
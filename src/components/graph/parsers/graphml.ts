@@ -0,0 +1,113 @@
+import { type GraphData, type GraphDataLink, type GraphDataNode } from '../graphData.ts';
+import { applyNodeAttribute, rgbToHex, toPositiveNumber } from './attributes.ts';
+import { childrenNamed, localName, parseXml, type XmlElement } from './xml.ts';
+import { GraphParseError } from './parseError.ts';
+
+// a <key>: the attribute name its <data> elements carry, and its default value
+type GraphMLKey = {
+  name: string;
+  domain: string; // "node", "edge", "graph" or "all"
+  fallback: string | null;
+};
+
+/**
+ * parseGraphML
+ * - GraphML as written by Gephi, NetworkX, igraph and yEd: <node> and <edge> elements of every
+ *   <graph>, nested graphs included (they are flattened)
+ * - node <data> is mapped through its <key attr.name> (see applyNodeAttribute); Gephi's separate
+ *   r / g / b keys are combined into a color, an edge "weight" becomes the link weight
+ * - throws GraphParseError with the line of the offending element, e.g. for an edge to an
+ *   undeclared node or a repeated node id
+ */
+export function parseGraphML(text: string): GraphData {
+  const root = parseXml(text);
+  if (localName(root) !== "graphml") {
+    throw new GraphParseError(`expected <graphml>, found <${root.name}>`, root.line);
+  }
+
+  const keys = new Map<string, GraphMLKey>();
+  for (const key of childrenNamed(root, "key")) {
+    if (!key.attributes.id) throw new GraphParseError("<key> without an id", key.line);
+    const fallback = childrenNamed(key, "default")[0];
+    keys.set(key.attributes.id, {
+      name: key.attributes["attr.name"] ?? key.attributes.id,
+      domain: key.attributes.for ?? "all",
+      fallback: fallback ? fallback.text.trim() : null,
+    });
+  }
+
+  // every data value of an element, defaults of its domain first
+  const readData = (element: XmlElement, domain: string) => {
+    const values = new Map<string, string>();
+    for (const key of keys.values()) {
+      if (key.fallback != null && (key.domain === domain || key.domain === "all")) {
+        values.set(key.name, key.fallback);
+      }
+    }
+    for (const data of childrenNamed(element, "data")) {
+      const key = keys.get(data.attributes.key ?? "");
+      if (!key) {
+        const message = `<data> refers to unknown key "${data.attributes.key}"`;
+        throw new GraphParseError(message, data.line);
+      }
+      values.set(key.name, data.text.trim());
+    }
+    return values;
+  };
+
+  const graphs = childrenNamed(root, "graph");
+  if (graphs.length === 0) throw new GraphParseError("no <graph> in the document", root.line);
+
+  const nodes: GraphDataNode[] = [];
+  const nodeLines = new Map<string, number>();
+  const edges: { link: GraphDataLink; line: number }[] = [];
+
+  const visitGraph = (graph: XmlElement) => {
+    for (const element of graph.children) {
+      const kind = localName(element);
+      if (kind === "node") {
+        const id = element.attributes.id;
+        if (!id) throw new GraphParseError("<node> without an id", element.line);
+        const previous = nodeLines.get(id);
+        if (previous != null) {
+          const message = `node "${id}" is already declared on line ${previous}`;
+          throw new GraphParseError(message, element.line);
+        }
+        nodeLines.set(id, element.line);
+        nodes.push(toNode(id, readData(element, "node")));
+        // hierarchical GraphML: a node may contain a whole graph
+        for (const nested of childrenNamed(element, "graph")) visitGraph(nested);
+      } else if (kind === "edge") {
+        const { source, target } = element.attributes;
+        if (!source || !target) {
+          throw new GraphParseError("<edge> needs a source and a target", element.line);
+        }
+        const weight = toPositiveNumber(readData(element, "edge").get("weight") ?? "");
+        const link: GraphDataLink = { source, target };
+        if (weight != null) link.weight = weight;
+        edges.push({ link, line: element.line });
+      }
+    }
+  };
+  graphs.forEach(visitGraph);
+
+  // edges may come before the nodes they connect, so they are checked at the end
+  for (const { link, line } of edges) {
+    for (const end of [link.source, link.target]) {
+      if (!nodeLines.has(String(end))) {
+        throw new GraphParseError(`edge refers to undeclared node "${end}"`, line);
+      }
+    }
+  }
+  return { nodes, links: edges.map((e) => e.link) };
+}
+
+function toNode(id: string, values: Map<string, string>): GraphDataNode {
+  const node: GraphDataNode = { id };
+  for (const [name, value] of values) applyNodeAttribute(node, name, value);
+
+  // Gephi writes the color as three separate integer keys
+  const [r, g, b] = ["r", "g", "b"].map((c) => Number(values.get(c)));
+  if ([r, g, b].every(Number.isFinite)) node.color = rgbToHex(r, g, b);
+  return node;
+}
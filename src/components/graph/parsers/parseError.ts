@@ -0,0 +1,30 @@
+/** Thrown by every graph file parser; `line` is 1-based and points at the offending input */
+export class GraphParseError extends Error {
+  readonly line: number;
+
+  constructor(message: string, line: number) {
+    super(`Line ${line}: ${message}`);
+    this.name = "GraphParseError";
+    this.line = line;
+  }
+}
+
+/**
+ * createLineLocator
+ * - returns a function mapping an offset in `text` to its 1-based line number
+ * - line starts are collected once, lookups are a binary search
+ */
+export function createLineLocator(text: string): (offset: number) => number {
+  const starts = [0];
+  for (let i = 0; i < text.length; i++) if (text[i] === "\n") starts.push(i + 1);
+  return (offset) => {
+    let lo = 0;
+    let hi = starts.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (starts[mid] <= offset) lo = mid;
+      else hi = mid - 1;
+    }
+    return lo + 1;
+  };
+}
@@ -0,0 +1,42 @@
+import { type GraphData } from '../graphData.ts';
+import { parseCSV } from './csv.ts';
+import { parseDOT } from './dot.ts';
+import { parseGEXF } from './gexf.ts';
+import { parseGraphML } from './graphml.ts';
+
+export type GraphFileFormat = "graphml" | "gexf" | "dot" | "csv";
+
+const FORMAT_BY_EXTENSION = new Map<string, GraphFileFormat>([
+  ["graphml", "graphml"],
+  ["xml", "graphml"],
+  ["gexf", "gexf"],
+  ["dot", "dot"],
+  ["gv", "dot"],
+  ["csv", "csv"],
+  ["tsv", "csv"],
+  ["txt", "csv"],
+]);
+
+/** Format of a graph file from its name (e.g. of a dropped File), null if it is not known */
+export function graphFormatFromFileName(fileName: string): GraphFileFormat | null {
+  const extension = fileName.slice(fileName.lastIndexOf(".") + 1).toLowerCase();
+  return FORMAT_BY_EXTENSION.get(extension) ?? null;
+}
+
+/**
+ * parseGraphFile
+ * - parses the text of a graph file into the GraphData the `data` prop takes
+ * - throws GraphParseError (with a line number) when the file is malformed
+ */
+export function parseGraphFile(text: string, format: GraphFileFormat): GraphData {
+  switch (format) {
+    case "graphml":
+      return parseGraphML(text);
+    case "gexf":
+      return parseGEXF(text);
+    case "dot":
+      return parseDOT(text);
+    case "csv":
+      return parseCSV(text);
+  }
+}
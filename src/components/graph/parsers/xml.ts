@@ -0,0 +1,145 @@
+import { createLineLocator, GraphParseError } from './parseError.ts';
+
+export type XmlElement = {
+  name: string; // as written, including a namespace prefix ("viz:color")
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string; // concatenated text and CDATA directly inside the element
+  line: number; // line of the start tag
+};
+
+const ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: "\"",
+  apos: "'",
+};
+
+/** Element name without its namespace prefix */
+export function localName(element: XmlElement): string {
+  const colon = element.name.indexOf(":");
+  return colon < 0 ? element.name : element.name.slice(colon + 1);
+}
+
+/** Direct children with this local name */
+export function childrenNamed(element: XmlElement, name: string): XmlElement[] {
+  return element.children.filter((child) => localName(child) === name);
+}
+
+/**
+ * parseXml
+ * - a small non-validating XML reader for graph files: elements, attributes, text, CDATA and the
+ *   predefined / numeric entities; comments, processing instructions and the DOCTYPE are skipped
+ * - used instead of DOMParser, which is missing in workers and in Node, and which reports errors
+ *   without a reliable line number
+ * - throws GraphParseError for malformed input (unclosed or mismatched tags, bad attributes)
+ */
+export function parseXml(text: string): XmlElement {
+  const lineAt = createLineLocator(text);
+  function fail(message: string, offset: number): never {
+    throw new GraphParseError(message, lineAt(offset));
+  }
+
+  const decode = (raw: string, offset: number) =>
+    raw.replace(/&(#x[0-9a-fA-F]+|#[0-9]+|[a-zA-Z]+);/g, (match, entity: string) => {
+      if (entity[0] !== "#") return ENTITIES[entity] ?? fail(`unknown entity ${match}`, offset);
+      const hex = entity[1] === "x";
+      return String.fromCodePoint(parseInt(entity.slice(hex ? 2 : 1), hex ? 16 : 10));
+    });
+
+  const stack: XmlElement[] = [];
+  let root: XmlElement | null = null;
+  let i = 0;
+
+  // skip past `end`, failing with `what` if it never comes
+  const skipTo = (end: string, what: string) => {
+    const at = text.indexOf(end, i);
+    if (at < 0) fail(`unterminated ${what}`, i);
+    const content = text.slice(i, at);
+    i = at + end.length;
+    return content;
+  };
+
+  while (i < text.length) {
+    const lt = text.indexOf("<", i);
+    const textEnd = lt < 0 ? text.length : lt;
+    if (textEnd > i) {
+      const raw = text.slice(i, textEnd);
+      if (stack.length > 0) stack[stack.length - 1].text += decode(raw, i);
+      else if (raw.trim() !== "") fail("text outside the root element", i);
+    }
+    if (lt < 0) break;
+    i = lt;
+
+    if (text.startsWith("<!--", i)) {
+      i += 4;
+      skipTo("-->", "comment");
+    } else if (text.startsWith("<![CDATA[", i)) {
+      const start = i;
+      i += 9;
+      const content = skipTo("]]>", "CDATA section");
+      if (stack.length === 0) fail("CDATA outside the root element", start);
+      stack[stack.length - 1].text += content;
+    } else if (text.startsWith("<?", i)) {
+      i += 2;
+      skipTo("?>", "processing instruction");
+    } else if (text.startsWith("<!", i)) {
+      // DOCTYPE, possibly with an internal subset in [...]
+      const start = i;
+      let depth = 0;
+      for (; i < text.length; i++) {
+        if (text[i] === "[") depth++;
+        else if (text[i] === "]") depth--;
+        else if (text[i] === ">" && depth === 0) break;
+      }
+      if (i >= text.length) fail("unterminated declaration", start);
+      i++;
+    } else if (text[i + 1] === "/") {
+      const start = i;
+      const close = /^<\/([^\s>]+)\s*>/.exec(text.slice(i, i + 256));
+      if (!close) fail("malformed end tag", start);
+      const open = stack.pop();
+      if (!open) fail(`unexpected </${close[1]}>`, start);
+      if (open.name !== close[1]) {
+        fail(`</${close[1]}> does not close <${open.name}> from line ${open.line}`, start);
+      }
+      i += close[0].length;
+    } else {
+      const start = i;
+      const nameMatch = /^<([A-Za-z_][\w.:-]*)/.exec(text.slice(i, i + 256));
+      if (!nameMatch) fail("malformed start tag", start);
+      i += nameMatch[0].length;
+      const element: XmlElement = {
+        name: nameMatch[1], attributes: {}, children: [], text: "", line: lineAt(start),
+      };
+
+      // attributes up to > or />
+      const attribute = /\s*([A-Za-z_][\w.:-]*)\s*=\s*("([^"]*)"|'([^']*)')|\s*(\/?>)/y;
+      let selfClosing = false;
+      for (;;) {
+        attribute.lastIndex = i;
+        const match = attribute.exec(text);
+        if (!match) fail(`malformed attribute in <${element.name}>`, i);
+        i = attribute.lastIndex;
+        if (match[5]) {
+          selfClosing = match[5] === "/>";
+          break;
+        }
+        element.attributes[match[1]] = decode(match[3] ?? match[4], i);
+      }
+
+      if (stack.length > 0) stack[stack.length - 1].children.push(element);
+      else if (root) fail("more than one root element", start);
+      else root = element;
+      if (!selfClosing) stack.push(element);
+    }
+  }
+
+  if (stack.length > 0) {
+    const open = stack[stack.length - 1];
+    throw new GraphParseError(`<${open.name}> is never closed`, open.line);
+  }
+  if (!root) fail("no root element", text.length);
+  return root;
+}
@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { type Node } from './nodes.ts';
+import { NodePicker, PICK_SLOP, toPickedNode } from './picking.ts';
+
+const node = (id: number, x: number, y: number, radius = 2): Node => ({ id, x, y, radius });
+
+function createPicker(nodes: Node[]) {
+  const picker = new NodePicker();
+  picker.rebuild(nodes);
+  return picker;
+}
+
+describe("NodePicker", () => {
+  it("hits a node within its radius plus PICK_SLOP", () => {
+    const a = node(0, 100, 100);
+    const picker = createPicker([a]);
+    expect(picker.find(100 + 2 + PICK_SLOP - 0.5, 100)).toBe(a);
+    expect(picker.find(100 + 2 + PICK_SLOP + 1, 100)).toBeNull();
+  });
+
+  it("picks the closest of overlapping discs", () => {
+    const a = node(0, 100, 100);
+    const b = node(1, 106, 100);
+    const picker = createPicker([a, b]);
+    expect(picker.find(102, 100)).toBe(a);
+    expect(picker.find(104, 100)).toBe(b);
+  });
+
+  it("hits a large node even when a small one has the nearer center", () => {
+    const large = node(0, 100, 100, 30);
+    const small = node(1, 125, 100);
+    const picker = createPicker([large, small]);
+    // 9 px from the small center (outside 2 + slop), 34 px from the large one (inside 30 + slop)
+    expect(picker.find(134, 100)).toBe(large);
+    expect(picker.find(126, 100)).toBe(small);
+    expect(picker.find(100 + 30 + PICK_SLOP + 1, 140)).toBeNull();
+  });
+
+  it("hits one of several nodes at the same position", () => {
+    const a = node(0, 50, 50);
+    const b = node(1, 50, 50);
+    expect([a, b]).toContain(createPicker([a, b]).find(51, 50));
+  });
+
+  it("finds nothing until rebuilt after an invalidate", () => {
+    const a = node(0, 100, 100);
+    const picker = createPicker([a]);
+    picker.invalidate();
+    expect(picker.stale).toBe(true);
+    expect(picker.find(100, 100)).toBeNull();
+    picker.rebuild([a]);
+    expect(picker.find(100, 100)).toBe(a);
+  });
+});
+
+describe("toPickedNode", () => {
+  it("copies the node, with the data fields only when present", () => {
+    const a = { ...node(0, 10, 20), color: "#ffffff", fx: 10, fy: 20 };
+    expect(toPickedNode(a, true)).toEqual({
+      id: 0, x: 10, y: 20, radius: 2, color: "#ffffff", selected: true, pinned: true,
+    });
+    const b = { ...node(1, 0, 0), dataId: "b", label: "B" };
+    expect(toPickedNode(b, false)).toMatchObject({ dataId: "b", label: "B", pinned: false });
+  });
+});
@@ -0,0 +1,94 @@
+import { quadtree, type Quadtree } from 'd3-quadtree';
+import { type GraphDataId } from './graphData.ts';
+import { type Node, type NodeData } from './nodes.ts';
+
+/** Extra px around a node that still hit it, so small nodes can be hovered and tapped */
+export const PICK_SLOP = 6;
+
+/**
+ * A node as reported to the host (onNodeHover / onNodeClick): a plain copy, so it also crosses
+ * the worker boundary and stays valid after the simulation moves on
+ */
+export type PickedNode = {
+  id: number;
+  dataId?: GraphDataId; // data mode: id of the GraphDataNode
+  label?: string;
+  data?: NodeData;
+  x: number; // canvas coordinates (CSS px) when it was picked
+  y: number;
+  radius: number;
+  color: string;
+  selected: boolean;
+  pinned: boolean;
+};
+
+/**
+ * NodePicker
+ * - hit testing for the pointer: a d3 quadtree of the node positions, rebuilt when they moved
+ * - `find` returns the node whose disc (radius plus PICK_SLOP) contains the point, the closest
+ *   one if discs overlap
+ */
+export class NodePicker {
+  private tree: Quadtree<Node> | null = null;
+  private maxRadius = 0;
+
+  /** Index the nodes at their current positions */
+  rebuild(nodes: readonly Node[]) {
+    this.tree = quadtree<Node>()
+      .x((n) => n.x ?? 0)
+      .y((n) => n.y ?? 0)
+      .addAll(nodes as Node[]);
+    this.maxRadius = nodes.reduce((max, n) => Math.max(max, n.radius ?? 1), 0);
+  }
+
+  /** Positions changed: the next `find` needs a rebuild first */
+  invalidate() {
+    this.tree = null;
+  }
+
+  get stale() {
+    return this.tree == null;
+  }
+
+  find(x: number, y: number): Node | null {
+    if (!this.tree) return null;
+    /* every center within the largest radius is a candidate: the nearest center alone may be a
+      small node that misses the point while a large one next to it contains it */
+    const reach = this.maxRadius + PICK_SLOP;
+    let best: Node | null = null;
+    let bestDistance = Infinity;
+    this.tree.visit((quad, x0, y0, x1, y1) => {
+      if (!quad.length) {
+        // a leaf: the nodes at one position, chained through `next`
+        for (let leaf: typeof quad | undefined = quad; leaf; leaf = leaf.next) {
+          const node = leaf.data;
+          const distance = Math.hypot((node.x ?? 0) - x, (node.y ?? 0) - y);
+          if (distance <= (node.radius ?? 1) + PICK_SLOP && distance < bestDistance) {
+            best = node;
+            bestDistance = distance;
+          }
+        }
+      }
+      // skip quadrants that lie entirely beyond the reach of the point
+      return x0 > x + reach || x1 < x - reach || y0 > y + reach || y1 < y - reach;
+    });
+    return best;
+  }
+}
+
+/** The PickedNode of a simulation node */
+export function toPickedNode(node: Node, selected: boolean): PickedNode {
+  const picked: PickedNode = {
+    id: node.id,
+    x: node.x ?? 0,
+    y: node.y ?? 0,
+    radius: node.radius ?? 1,
+    color: node.color ?? "",
+    selected,
+    pinned: node.fx != null && node.fy != null,
+  };
+  if (node.dataId != null) picked.dataId = node.dataId;
+  if (node.label != null) picked.label = node.label;
+  if (node.data) picked.data = node.data;
+  return picked;
+}
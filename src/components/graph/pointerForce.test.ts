@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { forcePointer, type PointerForceMode, type PointerSample } from './pointerForce.ts';
+import { type Node } from './nodes.ts';
+
+// one tick of the force with the pointer at (100, 100) on a node at rest at (x, y)
+function push(
+  mode: PointerForceMode,
+  x: number,
+  y: number,
+  { pressed = false, id = 0 } = {}
+): Node {
+  const n: Node = { id, x, y, vx: 0, vy: 0 };
+  const pointers: PointerSample[] = [{ x: 100, y: 100, pressed }];
+  const force = forcePointer(
+    () => pointers,
+    () => ({ mode, pressMode: "repel", strength: 900, radius: 200, cruiseSpeed: 1000 })
+  );
+  force.initialize!([n], () => 0);
+  force(1);
+  return n;
+}
+
+describe("forcePointer", () => {
+  it("attract pulls a node toward the pointer", () => {
+    const n = push("attract", 50, 100);
+    expect(n.vx).toBeGreaterThan(0);
+    expect(n.vy).toBeCloseTo(0);
+  });
+
+  it("repel pushes a node away from the pointer", () => {
+    const n = push("repel", 50, 100);
+    expect(n.vx).toBeLessThan(0);
+    expect(n.vy).toBeCloseTo(0);
+  });
+
+  it("orbit moves a node mostly along the tangent", () => {
+    const n = push("orbit", 50, 100);
+    expect(Math.abs(n.vy!)).toBeGreaterThan(Math.abs(n.vx!));
+  });
+
+  it("fades linearly to nothing at the radius", () => {
+    const near = push("attract", 50, 100); // 50 px away
+    const far = push("attract", -50, 100); // 150 px away
+    expect(near.vx! / far.vx!).toBeCloseTo((1 - 50 / 200) / (1 - 150 / 200));
+    expect(push("attract", -150, 100).vx).toBe(0); // 250 px away
+  });
+
+  it("uses the press mode while the pointer is held", () => {
+    expect(push("attract", 50, 100, { pressed: true }).vx).toBeLessThan(0);
+  });
+
+  it("never pushes interaction nodes", () => {
+    expect(push("attract", 50, 100, { id: -1 }).vx).toBe(0);
+  });
+
+  it("does nothing in mode none", () => {
+    expect(push("none", 50, 100).vx).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import { type Force } from "d3-force";
+import { type Node } from './nodes.ts';
+import { REFERENCE_FPS } from './timeStep.ts';
+
+/**
+ * How nodes react physically to the pointer:
+ * - "none": they don't (the pointer only affects rendering)
+ * - "attract" / "repel": pulled toward / pushed away from the pointer
+ * - "orbit": swirl around the pointer (tangential push with a slight pull inward)
+ */
+export type PointerForceMode = "none" | "attract" | "repel" | "orbit";
+
+export type PointerSample = {
+  x: number;
+  y: number;
+  pressed: boolean;
+};
+
+export type PointerForceSettings = {
+  mode: PointerForceMode;
+  pressMode: PointerForceMode | null; // mode while pressed, null keeps `mode`
+  strength: number; // acceleration at the pointer, px/s²
+  radius: number; // px, the force fades linearly to 0 at this distance
+  cruiseSpeed: number; // px/s, nodes pushed faster than this ease back to it
+};
+
+/** Share of the excess speed above cruise speed kept per reference step */
+const SPEED_RELAX = 0.96;
+
+/** Inward pull of the orbit mode, as a share of its tangential push */
+const ORBIT_INWARD = 0.5;
+
+/**
+ * forcePointer
+ * - custom d3 force applying the selected pointer mode to every node within `radius`
+ * - also relaxes nodes faster than the cruise speed back toward it: the simulation runs without
+ *   velocity decay, so without this every push would add energy forever
+ * - pointers and settings are read through getters every tick, so they can change live
+ * - interaction nodes (negative ids) are never pushed
+ */
+export function forcePointer(
+  getPointers: () => PointerSample[],
+  getSettings: () => PointerForceSettings
+): Force<Node, undefined> {
+  let nodes: Node[] = [];
+
+  function force() {
+    const settings = getSettings();
+    const pointers = getPointers();
+    // px/s² -> velocity change per reference step
+    const accel = settings.strength / (REFERENCE_FPS * REFERENCE_FPS);
+    const radius = settings.radius;
+    const cruise = settings.cruiseSpeed / REFERENCE_FPS;
+
+    for (const n of nodes) {
+      if (n.id < 0) continue;
+
+      for (const p of pointers) {
+        const mode = p.pressed && settings.pressMode ? settings.pressMode : settings.mode;
+        if (mode === "none") continue;
+
+        const dx = p.x - (n.x ?? 0);
+        const dy = p.y - (n.y ?? 0);
+        const dist = Math.hypot(dx, dy);
+        if (dist >= radius || dist < 1e-6) continue;
+
+        const ux = dx / dist; // unit vector toward the pointer
+        const uy = dy / dist;
+        const a = accel * (1 - dist / radius);
+        if (mode === "attract") {
+          n.vx = (n.vx ?? 0) + ux * a;
+          n.vy = (n.vy ?? 0) + uy * a;
+        } else if (mode === "repel") {
+          n.vx = (n.vx ?? 0) - ux * a;
+          n.vy = (n.vy ?? 0) - uy * a;
+        } else {
+          // orbit: counter-clockwise tangent plus a little pull so nodes stay in the swirl
+          n.vx = (n.vx ?? 0) + (-uy + ux * ORBIT_INWARD) * a;
+          n.vy = (n.vy ?? 0) + (ux + uy * ORBIT_INWARD) * a;
+        }
+      }
+
+      const speed = Math.hypot(n.vx ?? 0, n.vy ?? 0);
+      if (speed > cruise) {
+        const relaxed = cruise + (speed - cruise) * SPEED_RELAX;
+        n.vx = (n.vx ?? 0) * (relaxed / speed);
+        n.vy = (n.vy ?? 0) * (relaxed / speed);
+      }
+    }
+  }
+
+  force.initialize = (next: Node[]) => {
+    nodes = next;
+  };
+
+  return force;
+}
@@ -0,0 +1,60 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { GraphPresetError, parsePreset } from './presetSchema.ts';
+import { GRAPH_PRESETS, presetConfig } from './registry.ts';
+
+const directory = new URL(".", import.meta.url);
+const bundled = readdirSync(directory).filter((file) => file.endsWith(".json"));
+
+const valid = {
+  name: "my-look",
+  label: "My look",
+  config: {
+    edgeColor: "#123abc",
+    colorWeights: [{ color: "#ffffff", weight: 0.25 }, { color: "#000000", weight: 0.75 }],
+    linkOpacity: 0.4,
+    pointerPressForce: null,
+  },
+};
+
+// each entry breaks one part of `valid`; parsing must fail with the given message
+const MALFORMED: [message: string, doc: unknown][] = [
+  ["not valid JSON", "{"],
+  [`name "My look" must be kebab-case`, { ...valid, name: "My look" }],
+  ["label must be a string", { ...valid, label: 1 }],
+  ["config.seed is not a preset field", { ...valid, config: { seed: 1 } }],
+  ["config.edgeColour is not a preset field", { ...valid, config: { edgeColour: "#ffffff" } }],
+  ["config.edgeColor must be a #rrggbb color", { ...valid, config: { edgeColor: "cyan" } }],
+  ["config.linkOpacity must be at most 1", { ...valid, config: { linkOpacity: 1.5 } }],
+  ["config.speed must be at least 0", { ...valid, config: { speed: -1 } }],
+  ["config.speed must be a finite number", { ...valid, config: { speed: "10" } }],
+  ["config.boundary must be one of", { ...valid, config: { boundary: "sticky" } }],
+  ["config.pointerForce must be a string", { ...valid, config: { pointerForce: null } }],
+  ["config.colorWeights must be a non-empty array", { ...valid, config: { colorWeights: [] } }],
+  [
+    "config.colorWeights weights must sum to 1, found 0.5",
+    { ...valid, config: { colorWeights: [{ color: "#ffffff", weight: 0.5 }] } },
+  ],
+];
+
+describe("bundled presets", () => {
+  it.each(bundled)("%s matches the schema", (file) => {
+    const doc = JSON.parse(readFileSync(new URL(file, directory), "utf8"));
+    const preset = parsePreset(doc);
+    expect(`${preset.name}.json`).toBe(file);
+    expect(GRAPH_PRESETS.get(preset.name as never)).toEqual(preset);
+  });
+});
+
+describe("parsePreset", () => {
+  it("accepts a valid document, as an object or as JSON", () => {
+    expect(parsePreset(valid)).toEqual(valid);
+    expect(parsePreset(JSON.stringify(valid))).toEqual(valid);
+    expect(presetConfig(valid)).toEqual(valid.config);
+  });
+
+  it.each(MALFORMED)("rejects a document where %s", (message, doc) => {
+    expect(() => parsePreset(doc)).toThrow(GraphPresetError);
+    expect(() => parsePreset(doc)).toThrow(message);
+  });
+});
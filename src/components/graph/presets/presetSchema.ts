@@ -0,0 +1,174 @@
+import { type GraphConfig } from '../graphConfig.ts';
+
+/** Rule a preset config field is checked against */
+type FieldRule =
+  | { type: "number"; min?: number; max?: number }
+  | { type: "color" } // #rrggbb
+  | { type: "choice"; choices: readonly string[]; nullable?: boolean }
+  | { type: "colorWeights" };
+
+const POINTER_FORCES = ["none", "attract", "repel", "orbit"] as const;
+
+/**
+ * The config fields a preset may set: colors, weights, radii, link rules, forces and boundary.
+ * Seed, node count and adaptive quality describe a device or a session rather than a look and are
+ * left to the `config` prop.
+ */
+export const PRESET_SCHEMA = {
+  // colors and weights
+  backgroundColor: { type: "color" },
+  edgeColor: { type: "color" },
+  cursorColor: { type: "color" },
+  colorWeights: { type: "colorWeights" },
+  // radii
+  nodeRadius: { type: "number", min: 0 },
+  radiusMinFactor: { type: "number", min: 0 },
+  radiusMaxFactor: { type: "number", min: 0 },
+  // link rules
+  linkDistance: { type: "number", min: 1 },
+  linkOpacity: { type: "number", min: 0, max: 1 },
+  mouseEffectRadiusNodes: { type: "number", min: 0 },
+  mouseEffectRadiusEdges: { type: "number", min: 0 },
+  mouseFalloff: { type: "choice", choices: ["linear", "quadratic"] },
+  // forces
+  speed: { type: "number", min: 0 },
+  chargeStrength: { type: "number" },
+  pointerForce: { type: "choice", choices: POINTER_FORCES },
+  pointerPressForce: { type: "choice", choices: POINTER_FORCES, nullable: true },
+  pointerForceStrength: { type: "number", min: 0 },
+  pointerForceRadius: { type: "number", min: 0 },
+  // boundary
+  boundary: { type: "choice", choices: ["bounce", "wrap", "soft", "open"] },
+  boundaryMargin: { type: "number", min: 0 },
+  boundaryStrength: { type: "number", min: 0 },
+} as const satisfies Partial<Record<keyof GraphConfig, FieldRule>>;
+
+export type PresetField = keyof typeof PRESET_SCHEMA;
+
+/**
+ * A named look: a partial config over DEFAULT_GRAPH_CONFIG. Presets are plain JSON documents
+ * (see presets/*.json), checked by parsePreset.
+ */
+export type GraphPreset = {
+  name: string; // kebab-case key, e.g. "minimal-mono"
+  label: string; // for pickers
+  description?: string;
+  config: Partial<Pick<GraphConfig, PresetField>>;
+};
+
+/** Thrown by parsePreset for a document that does not match the preset schema */
+export class GraphPresetError extends Error {
+  constructor(message: string) {
+    super(`Invalid graph preset: ${message}`);
+    this.name = "GraphPresetError";
+  }
+}
+
+/**
+ * parsePreset
+ * - validates a preset document (object or JSON string) against PRESET_SCHEMA
+ * - unknown config fields are rejected, so a typo does not silently fall back to the default
+ * - throws GraphPresetError naming the offending field
+ */
+export function parsePreset(input: unknown): GraphPreset {
+  let value = input;
+  if (typeof value === "string") {
+    try {
+      value = JSON.parse(value);
+    } catch (error) {
+      throw new GraphPresetError(`not valid JSON (${(error as Error).message})`);
+    }
+  }
+  const doc = expectObject(value, "preset");
+  const name = expectString(doc.name, "name");
+  if (!/^[a-z0-9]+(-[a-z0-9]+)*$/.test(name)) {
+    throw new GraphPresetError(`name "${name}" must be kebab-case`);
+  }
+  const preset: GraphPreset = {
+    name,
+    label: expectString(doc.label, "label"),
+    config: {},
+  };
+  if (doc.description !== undefined) {
+    preset.description = expectString(doc.description, "description");
+  }
+
+  const config = expectObject(doc.config, "config");
+  const parsed: Partial<Record<PresetField, unknown>> = {};
+  for (const [key, field] of Object.entries(config)) {
+    if (!Object.hasOwn(PRESET_SCHEMA, key)) {
+      throw new GraphPresetError(`config.${key} is not a preset field`);
+    }
+    const rule: FieldRule = PRESET_SCHEMA[key as PresetField];
+    parsed[key as PresetField] = parseField(field, rule, `config.${key}`);
+  }
+  preset.config = parsed as GraphPreset["config"];
+  return preset;
+}
+
+function parseField(value: unknown, rule: FieldRule, path: string): unknown {
+  switch (rule.type) {
+    case "number": {
+      const number = expectNumber(value, path);
+      if (rule.min != null && number < rule.min) {
+        throw new GraphPresetError(`${path} must be at least ${rule.min}`);
+      }
+      if (rule.max != null && number > rule.max) {
+        throw new GraphPresetError(`${path} must be at most ${rule.max}`);
+      }
+      return number;
+    }
+    case "color":
+      return expectColor(value, path);
+    case "choice": {
+      if (value === null && rule.nullable) return null;
+      const choice = expectString(value, path);
+      if (!rule.choices.includes(choice)) {
+        throw new GraphPresetError(`${path} must be one of ${rule.choices.join(", ")}`);
+      }
+      return choice;
+    }
+    case "colorWeights": {
+      if (!Array.isArray(value) || value.length === 0) {
+        throw new GraphPresetError(`${path} must be a non-empty array`);
+      }
+      const weights = value.map((item: unknown, i) => {
+        const cw = expectObject(item, `${path}[${i}]`);
+        const weight = expectNumber(cw.weight, `${path}[${i}].weight`);
+        if (weight < 0) throw new GraphPresetError(`${path}[${i}].weight must be at least 0`);
+        return { color: expectColor(cw.color, `${path}[${i}].color`), weight };
+      });
+      // pickWeightedColor draws from cumulative weights that are expected to reach 1
+      const sum = weights.reduce((total, cw) => total + cw.weight, 0);
+      if (Math.abs(sum - 1) > 0.001) {
+        throw new GraphPresetError(`${path} weights must sum to 1, found ${sum}`);
+      }
+      return weights;
+    }
+  }
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new GraphPresetError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new GraphPresetError(`${path} must be a finite number`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") throw new GraphPresetError(`${path} must be a string`);
+  return value;
+}
+
+function expectColor(value: unknown, path: string): string {
+  const color = expectString(value, path);
+  if (!/^#[0-9a-f]{6}$/i.test(color)) throw new GraphPresetError(`${path} must be a #rrggbb color`);
+  return color;
+}
@@ -0,0 +1,26 @@
+import { type GraphConfig } from '../graphConfig.ts';
+import { type GraphPreset, parsePreset } from './presetSchema.ts';
+import classic from './classic.json';
+import constellation from './constellation.json';
+import minimalMono from './minimal-mono.json';
+import neural from './neural.json';
+import plexus from './plexus.json';
+
+export type GraphPresetName = "classic" | "constellation" | "plexus" | "neural" | "minimal-mono";
+
+/* The bundled documents go through the same validation as user presets when this module loads,
+  so a broken preset fails on startup rather than rendering an unexpected look. */
+export const GRAPH_PRESETS: ReadonlyMap<GraphPresetName, GraphPreset> = new Map(
+  [classic, constellation, plexus, neural, minimalMono].map((doc) => {
+    const preset = parsePreset(doc);
+    return [preset.name as GraphPresetName, preset];
+  })
+);
+
+/** Config of a bundled preset, or of a custom one after validating it (throws GraphPresetError) */
+export function presetConfig(preset: GraphPresetName | GraphPreset): Partial<GraphConfig> {
+  if (typeof preset !== "string") return parsePreset(preset).config;
+  const found = GRAPH_PRESETS.get(preset);
+  if (!found) throw new Error(`Unknown graph preset "${preset}"`);
+  return found.config;
+}
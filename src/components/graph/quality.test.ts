@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_GRAPH_CONFIG } from './graphConfig.ts';
+import { QualityGovernor } from './quality.ts';
+
+// 60 fps target: a 16.7 ms budget
+const cfg = { ...DEFAULT_GRAPH_CONFIG, targetFps: 60, minNodes: 30, maxNodes: 600 };
+
+// feed identical frames until the governor decides something
+function decide(governor: QualityGovernor, frameMs: number, workMs: number, nodeCount: number) {
+  for (let i = 0; i < 1000; i++) {
+    const decision = governor.sample(frameMs, workMs, nodeCount, cfg);
+    if (decision) return decision;
+  }
+  return null;
+}
+
+describe("QualityGovernor", () => {
+  it("drops nodes when the engine's own work makes frames slow", () => {
+    expect(decide(new QualityGovernor(), 25, 10, 200)).toEqual({ nodeCount: 160, settled: false });
+  });
+
+  it("keeps the count when frames are slow for reasons other than the engine", () => {
+    expect(decide(new QualityGovernor(), 25, 3, 200)).toEqual({ nodeCount: 200, settled: true });
+  });
+
+  it("adds nodes when there is headroom, within the bounds", () => {
+    const grown = decide(new QualityGovernor(), 16, 2, 100)!;
+    expect(grown.settled).toBe(false);
+    expect(grown.nodeCount).toBeGreaterThanOrEqual(110);
+    expect(grown.nodeCount).toBeLessThanOrEqual(111);
+    expect(decide(new QualityGovernor(), 16, 2, 590)).toEqual({ nodeCount: 600, settled: false });
+    expect(decide(new QualityGovernor(), 40, 30, 35)).toEqual({ nodeCount: 30, settled: false });
+  });
+
+  it("stays below a count that was too slow once, then reports it as settled", () => {
+    const governor = new QualityGovernor();
+    expect(decide(governor, 25, 10, 200)?.nodeCount).toBe(160);
+
+    let count = 160;
+    for (;;) {
+      const decision = decide(governor, 16, 2, count)!;
+      if (decision.settled) break;
+      count = decision.nodeCount;
+    }
+    expect(count).toBe(199);
+    // settled is reported once
+    expect(decide(governor, 16, 2, count)).toBeNull();
+  });
+});
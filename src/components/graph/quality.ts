@@ -0,0 +1,102 @@
+import { type GraphConfig } from './graphConfig.ts';
+import { type NodeCountTier } from './nodes.ts';
+
+/** Frames averaged per decision (about a second at 60 fps) */
+const QUALITY_WINDOW = 60;
+/** Frames ignored after a change, while the added nodes fade in or the removed ones fade out */
+const QUALITY_COOLDOWN = 45;
+/** Consecutive decisions without a change before the count counts as settled */
+const SETTLE_DECISIONS = 3;
+
+const SHRINK_FACTOR = 0.8; // drop a fifth of the nodes when frames are too slow
+const GROW_FACTOR = 1.1; // add a tenth when there is headroom; slower up than down converges
+const SLOW_FRAME = 1.2; // × budget: average frame interval that counts as missing the target
+const BUSY_WORK = 0.25; // × budget: below this the engine's own work cannot be the reason
+const IDLE_WORK = 0.5; // × budget: engine work that leaves room for more nodes
+
+/** Settled node counts per tier, remembered across visits (see qualityStorage.ts) */
+export type NodeCounts = Partial<Record<NodeCountTier, number>>;
+
+export type QualityDecision = {
+  nodeCount: number;
+  settled: boolean; // true once the count has held for a while; changes are never settled
+};
+
+/**
+ * QualityGovernor
+ * - adaptive quality: fed one frame at a time, it averages the frame interval and the engine's
+ *   own work (tick + edges + draw) per window and answers with a new node count
+ * - slow frames caused by the engine shrink the count, spare time grows it, within
+ *   [minNodes, maxNodes]; a count that was too slow once becomes a ceiling, so it does not
+ *   oscillate around the budget
+ * - reports `settled` once per change, when the count has held for SETTLE_DECISIONS windows
+ */
+export class QualityGovernor {
+  private frames = 0;
+  private frameSum = 0;
+  private workSum = 0;
+  private cooldown = QUALITY_COOLDOWN;
+  private ceiling = Infinity;
+  private holds = 0;
+  private reported = false;
+
+  /** Forget the measurements and the ceiling, e.g. after a resize to another tier */
+  reset() {
+    this.frames = 0;
+    this.frameSum = 0;
+    this.workSum = 0;
+    this.cooldown = QUALITY_COOLDOWN;
+    this.ceiling = Infinity;
+    this.holds = 0;
+    this.reported = false;
+  }
+
+  sample(frameMs: number, workMs: number, nodeCount: number, cfg: GraphConfig) {
+    if (this.cooldown > 0) {
+      this.cooldown--;
+      return null;
+    }
+    this.frames++;
+    this.frameSum += frameMs;
+    this.workSum += workMs;
+    if (this.frames < QUALITY_WINDOW) return null;
+
+    const frame = this.frameSum / this.frames;
+    const work = this.workSum / this.frames;
+    this.frames = 0;
+    this.frameSum = 0;
+    this.workSum = 0;
+    return this.decide(frame, work, nodeCount, cfg);
+  }
+
+  private decide(
+    frameMs: number,
+    workMs: number,
+    nodeCount: number,
+    cfg: GraphConfig
+  ): QualityDecision | null {
+    const budget = 1000 / cfg.targetFps;
+    const min = Math.max(0, Math.round(cfg.minNodes));
+    const max = Math.max(min, Math.round(cfg.maxNodes));
+    const clamp = (count: number) => Math.max(min, Math.min(max, count));
+
+    let next = clamp(nodeCount);
+    if (frameMs > budget * SLOW_FRAME && workMs > budget * BUSY_WORK) {
+      this.ceiling = nodeCount;
+      next = clamp(Math.floor(nodeCount * SHRINK_FACTOR));
+    } else if (frameMs <= budget * SLOW_FRAME && workMs < budget * IDLE_WORK) {
+      const grown = Math.max(nodeCount + 1, Math.ceil(nodeCount * GROW_FACTOR));
+      next = clamp(Math.max(nodeCount, Math.min(grown, this.ceiling - 1)));
+    }
+
+    if (next !== nodeCount) {
+      this.cooldown = QUALITY_COOLDOWN;
+      this.holds = 0;
+      this.reported = false;
+      return { nodeCount: next, settled: false };
+    }
+    if (this.reported || ++this.holds < SETTLE_DECISIONS) return null;
+    this.reported = true;
+    return { nodeCount, settled: true };
+  }
+}
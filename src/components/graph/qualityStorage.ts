@@ -0,0 +1,37 @@
+import { type NodeCountTier } from './nodes.ts';
+import { type NodeCounts } from './quality.ts';
+
+const STORAGE_KEY = "graph.nodeCounts";
+const TIERS: readonly NodeCountTier[] = ["mobile", "tablet", "desktop"];
+
+/*
+Settled adaptive quality counts live in localStorage, so the next visit on the same device starts
+at the right size instead of measuring its way there again. Storage may be missing (server
+render, worker) or throw (private mode, quota, disabled cookies): every failure just means no
+stored counts.
+*/
+
+/** Node counts settled on this device by adaptive quality, per tier */
+export function loadNodeCounts(): NodeCounts {
+  const counts: NodeCounts = {};
+  try {
+    const parsed: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? "{}");
+    if (typeof parsed !== "object" || parsed === null) return counts;
+    for (const tier of TIERS) {
+      const value = (parsed as Record<string, unknown>)[tier];
+      if (typeof value === "number" && Number.isInteger(value) && value >= 0) counts[tier] = value;
+    }
+  } catch {
+    // no storage or unreadable entry
+  }
+  return counts;
+}
+
+/** Remember the node count adaptive quality settled on for `tier` */
+export function saveNodeCount(tier: NodeCountTier, nodeCount: number) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ ...loadNodeCounts(), [tier]: nodeCount }));
+  } catch {
+    // storage unavailable or full: the count is measured again next time
+  }
+}
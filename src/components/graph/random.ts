@@ -0,0 +1,23 @@
+/** A function returning uniformly distributed numbers in [0, 1), like Math.random */
+export type RandomSource = () => number;
+
+/**
+ * createRandom
+ * - deterministic PRNG (mulberry32): the same seed always yields the same sequence
+ * - 32 bits of state, fast and good enough for layout; not for anything security related
+ */
+export function createRandom(seed: number): RandomSource {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/** A fresh unsigned 32-bit seed, used when no seed is configured */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
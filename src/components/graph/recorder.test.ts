@@ -0,0 +1,150 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { captureSequence, GraphRecorder, type RecordingSource } from './recorder.ts';
+
+// stands in for the export canvas: every PNG is an empty blob
+class FakeOffscreenCanvas {
+  constructor(public width: number, public height: number) {}
+  getContext() {
+    return {};
+  }
+  convertToBlob() {
+    return Promise.resolve(new Blob([], { type: "image/png" }));
+  }
+}
+
+// WebCodecs stand-ins: the encoder turns every frame into a one-byte chunk at its timestamp
+class FakeVideoFrame {
+  constructor(_canvas: unknown, public init: { timestamp: number; duration: number }) {}
+  close() {}
+}
+
+class FakeEncodedVideoChunk {
+  byteLength = 1;
+  constructor(public type: "key" | "delta", public timestamp: number, public duration: number) {}
+  copyTo(target: Uint8Array) {
+    target[0] = 0;
+  }
+}
+
+class FakeVideoEncoder {
+  static codecs: string[] = [];
+  static timestamps: number[] = [];
+  state = "unconfigured";
+  encodeQueueSize = 0;
+  private output: (chunk: FakeEncodedVideoChunk) => void;
+
+  static async isConfigSupported(config: { codec: string }) {
+    return { supported: config.codec === "vp8" };
+  }
+
+  constructor(init: { output: (chunk: FakeEncodedVideoChunk) => void }) {
+    this.output = init.output;
+  }
+  configure(config: { codec: string }) {
+    FakeVideoEncoder.codecs.push(config.codec);
+    this.state = "configured";
+  }
+  encode(frame: FakeVideoFrame, options: { keyFrame: boolean }) {
+    const { timestamp, duration } = frame.init;
+    FakeVideoEncoder.timestamps.push(timestamp);
+    this.output(new FakeEncodedVideoChunk(options.keyFrame ? "key" : "delta", timestamp, duration));
+  }
+  async flush() {}
+  close() {
+    this.state = "closed";
+  }
+}
+
+function createSource(running = true) {
+  const calls: string[] = [];
+  const source: RecordingSource = {
+    start: () => calls.push("start"),
+    stop: () => calls.push("stop"),
+    isRunning: () => running,
+    getCaptureSize: () => ({ width: 64, height: 48 }),
+    recordFrame: (_ctx, width, height, dtMs) => {
+      calls.push(`frame ${width}x${height} ${dtMs.toFixed(3)}`);
+    },
+  };
+  return { source, calls };
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("captureSequence", () => {
+  it("renders frames offline at a fixed 1/fps step with the live loop paused", async () => {
+    vi.stubGlobal("OffscreenCanvas", FakeOffscreenCanvas);
+    const { source, calls } = createSource();
+
+    const frames = await captureSequence(source, 3, { fps: 30 });
+
+    expect(frames).toHaveLength(3);
+    expect(calls).toEqual([
+      "stop",
+      "frame 64x48 33.333",
+      "frame 64x48 33.333",
+      "frame 64x48 33.333",
+      "start",
+    ]);
+  });
+
+  it("leaves a stopped loop stopped", async () => {
+    vi.stubGlobal("OffscreenCanvas", FakeOffscreenCanvas);
+    const { source, calls } = createSource(false);
+
+    await captureSequence(source, 1, { fps: 30 });
+
+    expect(calls).toEqual(["stop", "frame 64x48 33.333"]);
+  });
+});
+
+describe("GraphRecorder", () => {
+  // records until `frameCount` frames were rendered, then stops
+  async function record(source: RecordingSource, calls: string[], frameCount: number) {
+    const recorder = new GraphRecorder(source);
+    recorder.start({ fps: 30 });
+    await vi.waitFor(() => {
+      expect(calls.filter((call) => call.startsWith("frame")).length).toBeGreaterThanOrEqual(
+        frameCount
+      );
+    });
+    return recorder.stop();
+  }
+
+  it("encodes WebM with WebCodecs, stamping frame i at i/fps", async () => {
+    vi.stubGlobal("OffscreenCanvas", FakeOffscreenCanvas);
+    vi.stubGlobal("VideoFrame", FakeVideoFrame);
+    vi.stubGlobal("EncodedVideoChunk", FakeEncodedVideoChunk);
+    vi.stubGlobal("VideoEncoder", FakeVideoEncoder);
+    FakeVideoEncoder.codecs = [];
+    FakeVideoEncoder.timestamps = [];
+    const { source, calls } = createSource();
+
+    const recording = await record(source, calls, 3);
+
+    expect(recording.type).toBe("webm");
+    if (recording.type === "webm") expect(recording.blob.type).toBe("video/webm");
+    expect(FakeVideoEncoder.codecs).toEqual(["vp8"]); // VP9 is not supported by the fake
+    const { timestamps } = FakeVideoEncoder;
+    expect(timestamps.length).toBeGreaterThanOrEqual(3);
+    expect(timestamps).toEqual(timestamps.map((_, i) => Math.round((i * 1e6) / 30)));
+    expect(calls.at(0)).toBe("stop");
+    expect(calls.at(-1)).toBe("start");
+  });
+
+  it("falls back to PNG frames without VideoEncoder", async () => {
+    vi.stubGlobal("OffscreenCanvas", FakeOffscreenCanvas);
+    const { source, calls } = createSource(false);
+
+    const recording = await record(source, calls, 2);
+
+    expect(recording.type).toBe("png-sequence");
+    if (recording.type === "png-sequence") {
+      expect(recording.fps).toBe(30);
+      expect(recording.frames.length).toBeGreaterThanOrEqual(2);
+    }
+    expect(calls).not.toContain("start");
+  });
+});
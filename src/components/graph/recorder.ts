@@ -0,0 +1,287 @@
+import { canvasToPng, type CaptureOptions, createExportCanvas } from './capture.ts';
+import { ArrayBufferTarget, Muxer } from 'webm-muxer';
+import { type DrawingContext } from './drawFrame.ts';
+
+/** Frame rate of recordings and sequences unless one is given */
+const DEFAULT_RECORDING_FPS = 60;
+
+/** WebCodecs codecs tried in order with their WebM codec ids, the first supported one is used */
+const WEBM_CODECS = [
+  { codec: "vp09.00.10.08", muxerCodec: "V_VP9" },
+  { codec: "vp8", muxerCodec: "V_VP8" },
+];
+
+/** A key frame every this many frames, so players can seek */
+const KEY_FRAME_INTERVAL = 120;
+
+/** Frames the encoder may have queued before recording waits for it to catch up */
+const MAX_ENCODE_QUEUE = 4;
+
+export type SequenceOptions = CaptureOptions & {
+  fps?: number; // the simulation advances exactly 1/fps per frame
+};
+
+export type RecordingOptions = SequenceOptions & {
+  videoBitsPerSecond?: number; // WebM only
+};
+
+/** A finished recording: WebM where WebCodecs can encode it, the PNG frames otherwise */
+export type Recording =
+  | { type: "webm"; blob: Blob; fps: number }
+  | { type: "png-sequence"; frames: Blob[]; fps: number };
+
+/**
+ * What recordings need from a graph (a GraphEngine, or a GraphWorkerClient forwarding to one):
+ * - start / stop the live frame loop, which is paused while frames are rendered offline and only
+ *   started again afterwards if it was running (isRunning) before
+ * - recordFrame: advance the simulation by exactly `dtMs` and paint the new frame into `ctx`
+ */
+export type RecordingSource = {
+  start(): void;
+  stop(): void;
+  isRunning(): boolean;
+  getCaptureSize(options: CaptureOptions): { width: number; height: number };
+  recordFrame(
+    ctx: DrawingContext,
+    width: number,
+    height: number,
+    dtMs: number
+  ): void | Promise<void>;
+};
+
+/**
+ * captureSequence
+ * - renders `frameCount` frames offline at a fixed timestep and encodes each as PNG
+ * - nothing depends on the display: the page may drop frames meanwhile, the sequence does not
+ */
+export async function captureSequence(
+  source: RecordingSource,
+  frameCount: number,
+  options: SequenceOptions = {}
+): Promise<Blob[]> {
+  const dtMs = 1000 / (options.fps ?? DEFAULT_RECORDING_FPS);
+  const { width, height } = source.getCaptureSize(options);
+  const { canvas, ctx } = createExportCanvas(width, height);
+
+  const frames: Blob[] = [];
+  const wasRunning = source.isRunning();
+  source.stop();
+  try {
+    for (let i = 0; i < frameCount; i++) {
+      await source.recordFrame(ctx, width, height, dtMs);
+      frames.push(await canvasToPng(canvas));
+    }
+  } finally {
+    if (wasRunning) source.start();
+  }
+  return frames;
+}
+
+/** Where a recording's frames go, one per `add` in order */
+type FrameSink = {
+  add(canvas: HTMLCanvasElement | OffscreenCanvas): Promise<void>;
+  finish(): Promise<Recording>;
+  close(): void;
+};
+
+/**
+ * WebmSink
+ * - encodes frames with a WebCodecs VideoEncoder and muxes them into WebM (webm-muxer)
+ * - frame i is stamped at i/fps, however long it took to render, so the video never stutters
+ */
+class WebmSink implements FrameSink {
+  private encoder: VideoEncoder;
+  private muxer: Muxer<ArrayBufferTarget>;
+  private fps: number;
+  private frameCount = 0;
+  private error: Error | null = null;
+
+  private constructor(config: VideoEncoderConfig, muxerCodec: string, fps: number) {
+    this.fps = fps;
+    this.muxer = new Muxer({
+      target: new ArrayBufferTarget(),
+      video: { codec: muxerCodec, width: config.width, height: config.height, frameRate: fps },
+    });
+    this.encoder = new VideoEncoder({
+      output: (chunk, meta) => this.muxer.addVideoChunk(chunk, meta),
+      error: (error) => {
+        this.error = error;
+      },
+    });
+    this.encoder.configure(config);
+  }
+
+  /** A sink for the first supported codec, or null where WebCodecs cannot encode WebM */
+  static async create(
+    width: number,
+    height: number,
+    fps: number,
+    bitrate: number | undefined
+  ): Promise<WebmSink | null> {
+    if (typeof VideoEncoder === "undefined") return null;
+    for (const { codec, muxerCodec } of WEBM_CODECS) {
+      const config: VideoEncoderConfig = { codec, width, height, bitrate, framerate: fps };
+      const { supported } = await VideoEncoder.isConfigSupported(config).catch(() => ({
+        supported: false,
+      }));
+      if (supported) return new WebmSink(config, muxerCodec, fps);
+    }
+    return null;
+  }
+
+  async add(canvas: HTMLCanvasElement | OffscreenCanvas) {
+    if (this.error) throw this.error;
+    const i = this.frameCount++;
+    const frame = new VideoFrame(canvas, {
+      timestamp: Math.round((i * 1e6) / this.fps),
+      duration: Math.round(1e6 / this.fps),
+    });
+    this.encoder.encode(frame, { keyFrame: i % KEY_FRAME_INTERVAL === 0 });
+    frame.close();
+    while (this.encoder.encodeQueueSize > MAX_ENCODE_QUEUE) {
+      await new Promise((resolve) => {
+        this.encoder.addEventListener("dequeue", resolve, { once: true });
+      });
+    }
+  }
+
+  async finish(): Promise<Recording> {
+    await this.encoder.flush();
+    if (this.error) throw this.error;
+    this.encoder.close();
+    this.muxer.finalize();
+    const blob = new Blob([this.muxer.target.buffer], { type: "video/webm" });
+    return { type: "webm", blob, fps: this.fps };
+  }
+
+  close() {
+    if (this.encoder.state !== "closed") this.encoder.close();
+  }
+}
+
+/** The fallback without WebCodecs: every frame as a PNG, like captureSequence */
+class PngSink implements FrameSink {
+  private fps: number;
+  private frames: Promise<Blob>[] = [];
+
+  constructor(fps: number) {
+    this.fps = fps;
+  }
+
+  async add(canvas: HTMLCanvasElement | OffscreenCanvas) {
+    this.frames.push(canvasToPng(canvas));
+  }
+
+  async finish(): Promise<Recording> {
+    return { type: "png-sequence", frames: await Promise.all(this.frames), fps: this.fps };
+  }
+
+  close() {
+    this.frames = [];
+  }
+}
+
+/**
+ * GraphRecorder
+ * - records a graph until stopped: to WebM with WebCodecs where available, otherwise to a PNG
+ *   sequence (a WebM timestamped on arrival would stutter whenever a frame renders slowly)
+ * - the live loop is paused while recording; every frame advances the simulation by exactly 1/fps
+ *   and is stamped at its index / fps
+ * - frames are rendered on a 1/fps schedule so a recording lasts about as long as the user watched
+ *   it; when rendering falls behind, the video gets fewer frames but still plays at full speed
+ */
+export class GraphRecorder {
+  private source: RecordingSource;
+  private sink: FrameSink | null = null;
+  private loop: Promise<void> | null = null;
+  private recording = false;
+  private resume = false; // the live loop was running when the recording started
+
+  constructor(source: RecordingSource) {
+    this.source = source;
+  }
+
+  /** Whether recordings become WebM here; without WebCodecs they are PNG sequences */
+  static encodesWebm(): boolean {
+    return typeof VideoEncoder !== "undefined";
+  }
+
+  isRecording(): boolean {
+    return this.recording;
+  }
+
+  start(options: RecordingOptions = {}) {
+    if (this.recording) throw new Error("A recording is already running");
+
+    this.recording = true;
+    this.resume = this.source.isRunning();
+    this.source.stop();
+    this.loop = this.run(options).catch(() => {
+      // the source went away mid-recording (e.g. its worker was destroyed) or the encoder
+      // failed: drop the recording
+      this.cancel();
+    });
+  }
+
+  /** Stop recording and resolve with the WebM file, or the PNG frames without WebCodecs */
+  async stop(): Promise<Recording> {
+    if (!this.recording) throw new Error("No recording is running");
+    await this.finishLoop();
+
+    const sink = this.sink;
+    this.sink = null;
+    if (!sink) throw new Error("The recording failed");
+    try {
+      return await sink.finish();
+    } finally {
+      sink.close();
+    }
+  }
+
+  /** Abort a running recording without producing a file (e.g. when the graph unmounts) */
+  cancel() {
+    if (!this.recording) return;
+    this.recording = false;
+    this.sink?.close();
+    this.sink = null;
+    if (this.resume) this.source.start();
+  }
+
+  private async finishLoop() {
+    this.recording = false;
+    try {
+      await this.loop;
+    } finally {
+      this.loop = null;
+      if (this.resume) this.source.start();
+    }
+  }
+
+  private async run(options: RecordingOptions) {
+    const fps = options.fps ?? DEFAULT_RECORDING_FPS;
+    const { width, height } = this.source.getCaptureSize(options);
+    const { canvas, ctx } = createExportCanvas(width, height);
+    const sink =
+      (await WebmSink.create(width, height, fps, options.videoBitsPerSecond)) ??
+      new PngSink(fps);
+    if (!this.recording) {
+      sink.close();
+      return;
+    }
+    this.sink = sink;
+
+    const dtMs = 1000 / fps;
+    let due = performance.now();
+    while (this.recording) {
+      await this.source.recordFrame(ctx, width, height, dtMs);
+      if (!this.recording) break;
+      await sink.add(canvas);
+
+      // wait for the next slot; if rendering fell behind, continue right away
+      due += dtMs;
+      const wait = due - performance.now();
+      if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+      else due = performance.now();
+    }
+  }
+}
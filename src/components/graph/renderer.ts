@@ -0,0 +1,16 @@
+import { type FrameModel } from './frameModel.ts';
+import { type GraphConfig } from './graphConfig.ts';
+
+/** Which renderer draws the graph: a 2D canvas (default) or live SVG elements */
+export type RendererKind = "canvas" | "svg";
+
+/**
+ * GraphRenderer
+ * - turns frame models into something visible; the engine owns the simulation, sizing and timing
+ * - `resize` follows the CSS size of the graph (and the pixel ratio, for pixel based renderers)
+ */
+export type GraphRenderer = {
+  resize(width: number, height: number, dpr: number): void;
+  render(frame: FrameModel, cfg: GraphConfig): void;
+  destroy(): void;
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { GraphEngine } from './GraphEngine.ts';
+import { type GraphSnapshot, GraphSnapshotError, parseSnapshot } from './snapshot.ts';
+
+function createSnapshot(): GraphSnapshot {
+  const engine = new GraphEngine({ config: { seed: 11 }, manual: true });
+  engine.resize(400, 300);
+  engine.step(10);
+  return engine.getSnapshot();
+}
+
+// each entry breaks one field of a valid snapshot; parsing must fail with the given message
+const MALFORMED: [message: string, mutate: (snapshot: GraphSnapshot) => void][] = [
+  ["unsupported version 2, expected 1", (s) => Object.assign(s, { version: 2 })],
+  ["unsupported version undefined", (s) => Reflect.deleteProperty(s, "version")],
+  ["width and height must be positive", (s) => Object.assign(s, { width: 0 })],
+  ["nodes must be an array", (s) => Object.assign(s, { nodes: {} })],
+  ["nodes[0].x must be a finite number", (s) => Object.assign(s.nodes[0], { x: NaN })],
+  ["nodes[1].vy must be a finite number", (s) => Reflect.deleteProperty(s.nodes[1], "vy")],
+  ["nodes[0].id must be a non-negative integer", (s) => Object.assign(s.nodes[0], { id: 1.5 })],
+  ["nodes[1].id 0 is used twice", (s) => Object.assign(s.nodes[1], { id: s.nodes[0].id })],
+  ["nodes[0].pinned must be a boolean", (s) => Object.assign(s.nodes[0], { pinned: 1 })],
+  ["nodes[0].dataId must be a finite number", (s) => Object.assign(s.nodes[0], { dataId: {} })],
+  ["nodes[0].radius must be positive", (s) => Object.assign(s.nodes[0], { radius: 0 })],
+  [
+    "nodes[0].color must be a #rgb or #rrggbb color",
+    (s) => Object.assign(s.nodes[0], { color: "red" }),
+  ],
+  ["config.speed must be a finite number", (s) => Object.assign(s.config, { speed: "fast" })],
+  ["config.nodeCount must be a finite number", (s) => Object.assign(s.config, { nodeCount: "9" })],
+  [
+    "config.mouseFalloff must be one of linear, quadratic",
+    (s) => Object.assign(s.config, { mouseFalloff: "cubic" }),
+  ],
+  [
+    "config.colorWeights must be a non-empty",
+    (s) => Object.assign(s.config, { colorWeights: [] }),
+  ],
+  ["config.speed must be at least 0", (s) => Object.assign(s.config, { speed: -1 })],
+  ["config.linkOpacity must be at most 1", (s) => Object.assign(s.config, { linkOpacity: 2 })],
+  [
+    "config.edgeColor must be a #rrggbb color",
+    (s) => Object.assign(s.config, { edgeColor: "#abc" }),
+  ],
+  [
+    "config.colorWeights[0].weight must be at least 0",
+    (s) => Object.assign(s.config, { colorWeights: [{ color: "#ffffff", weight: -1 }] }),
+  ],
+  [
+    "config.colorWeights[0].color must be a #rrggbb color",
+    (s) => Object.assign(s.config, { colorWeights: [{ color: "white", weight: 1 }] }),
+  ],
+];
+
+describe("parseSnapshot", () => {
+  it("round-trips getSnapshot through JSON", () => {
+    const snapshot = createSnapshot();
+    expect(parseSnapshot(JSON.stringify(snapshot))).toEqual(snapshot);
+  });
+
+  it("restores the same state into another engine", () => {
+    const snapshot = createSnapshot();
+    const engine = new GraphEngine({ manual: true });
+    engine.loadSnapshot(JSON.stringify(snapshot));
+    expect(engine.getSnapshot()).toEqual(snapshot);
+  });
+
+  it("rejects input that is not JSON or not a snapshot", () => {
+    expect(() => parseSnapshot("{")).toThrow("not valid JSON");
+    expect(() => parseSnapshot([])).toThrow("snapshot must be an object");
+  });
+
+  it.each(MALFORMED)("rejects a snapshot where %s", (message, mutate) => {
+    const snapshot = createSnapshot();
+    mutate(snapshot);
+    expect(() => parseSnapshot(snapshot)).toThrow(GraphSnapshotError);
+    expect(() => parseSnapshot(snapshot)).toThrow(message);
+  });
+});
@@ -0,0 +1,295 @@
+import { DEFAULT_GRAPH_CONFIG, type GraphConfig } from './graphConfig.ts';
+import { REFERENCE_FPS, toStepVelocity } from './timeStep.ts';
+import { type Node } from './nodes.ts';
+
+/** Format version written by createSnapshot; parseSnapshot rejects every other version */
+export const SNAPSHOT_VERSION = 1;
+
+export type NodeSnapshot = {
+  id: number;
+  x: number;
+  y: number;
+  vx: number; // px/second, independent of REFERENCE_FPS
+  vy: number;
+  radius: number;
+  color: string;
+  pinned: boolean; // fixed at (x, y)
+  dataId?: string | number; // data mode: id of the GraphDataNode, links are restored through it
+};
+
+/**
+ * The full state of a graph as plain JSON: every regular node (interaction nodes are transient
+ * and left out), the active config and the seed. Positions refer to `width` × `height` and are
+ * rescaled when the snapshot is loaded into a graph of another size.
+ */
+export type GraphSnapshot = {
+  version: typeof SNAPSHOT_VERSION;
+  width: number; // CSS px
+  height: number;
+  seed: number | null;
+  config: GraphConfig;
+  nodes: NodeSnapshot[];
+};
+
+/** Thrown by parseSnapshot (and so by every loadSnapshot) for malformed or unsupported input */
+export class GraphSnapshotError extends Error {
+  constructor(message: string) {
+    super(`Invalid graph snapshot: ${message}`);
+    this.name = "GraphSnapshotError";
+  }
+}
+
+// values of the union typed config fields, anything else is rejected
+const CONFIG_CHOICES: Partial<Record<keyof GraphConfig, readonly string[]>> = {
+  mouseFalloff: ["linear", "quadratic"],
+  pointerForce: ["none", "attract", "repel", "orbit"],
+  pointerPressForce: ["none", "attract", "repel", "orbit"],
+  boundary: ["bounce", "wrap", "soft", "open"],
+};
+
+// config fields that may also be null
+const NULLABLE_CONFIG_FIELDS: readonly (keyof GraphConfig)[] = [
+  "seed",
+  "pointerPressForce",
+  "nodeCount",
+  "cursorColor",
+];
+// nullable fields that are numbers when set (their default is null)
+const NULLABLE_NUMBER_FIELDS: readonly (keyof GraphConfig)[] = ["seed", "nodeCount"];
+
+// allowed ranges of the numeric config fields; fields not listed take any finite number
+const CONFIG_RANGES: Partial<Record<keyof GraphConfig, { min?: number; max?: number }>> = {
+  nodeRadius: { min: 0 },
+  linkDistance: { min: 1 }, // also the cell size of the spatial grid
+  mouseEffectRadiusNodes: { min: 0 },
+  mouseEffectRadiusEdges: { min: 0 },
+  dragLerp: { min: 0, max: 1 },
+  speed: { min: 0 },
+  radiusMinFactor: { min: 0 },
+  radiusMaxFactor: { min: 0 },
+  pointerForceStrength: { min: 0 },
+  pointerForceRadius: { min: 0 },
+  boundaryMargin: { min: 0 },
+  boundaryStrength: { min: 0 },
+  linkOpacity: { min: 0, max: 1 },
+  nodeCount: { min: 0 },
+  targetFps: { min: 1 },
+  minNodes: { min: 0 },
+  maxNodes: { min: 0 },
+};
+
+// config fields holding a #rrggbb color
+const COLOR_CONFIG_FIELDS: readonly (keyof GraphConfig)[] = [
+  "backgroundColor",
+  "edgeColor",
+  "cursorColor",
+];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+// node colors may also be short: data nodes keep the #rgb of their dataset
+const NODE_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/** Snapshot of the regular nodes (id >= 0) of a graph of `width` × `height` */
+export function createSnapshot(
+  nodes: readonly Node[],
+  cfg: GraphConfig,
+  width: number,
+  height: number,
+  seed: number | null
+): GraphSnapshot {
+  return {
+    version: SNAPSHOT_VERSION,
+    width,
+    height,
+    seed,
+    config: { ...cfg, colorWeights: cfg.colorWeights.map((cw) => ({ ...cw })) },
+    nodes: nodes.filter((n) => n.id >= 0).map((n) => ({
+      id: n.id,
+      x: n.x ?? 0,
+      y: n.y ?? 0,
+      vx: (n.vx ?? 0) * REFERENCE_FPS,
+      vy: (n.vy ?? 0) * REFERENCE_FPS,
+      radius: n.radius ?? 1,
+      color: n.color ?? cfg.colorWeights[0].color,
+      pinned: n.fx != null && n.fy != null,
+      ...(n.dataId != null && { dataId: n.dataId }),
+    })),
+  };
+}
+
+/**
+ * parseSnapshot
+ * - validates a snapshot (or its JSON string) and returns a fresh copy of it
+ * - every number must be finite and every node field present, so a loaded snapshot can never put
+ *   NaN into the simulation; radii must be positive, colors hex and config numbers within
+ *   their range, so nothing fails later while drawing
+ * - throws GraphSnapshotError naming the first offending field
+ */
+export function parseSnapshot(input: unknown): GraphSnapshot {
+  let value = input;
+  if (typeof input === "string") {
+    try {
+      value = JSON.parse(input);
+    } catch (error) {
+      throw new GraphSnapshotError(`not valid JSON (${(error as Error).message})`);
+    }
+  }
+
+  const snapshot = expectObject(value, "snapshot");
+  if (snapshot.version !== SNAPSHOT_VERSION) {
+    throw new GraphSnapshotError(
+      `unsupported version ${JSON.stringify(snapshot.version)}, expected ${SNAPSHOT_VERSION}`
+    );
+  }
+  const width = expectNumber(snapshot.width, "width");
+  const height = expectNumber(snapshot.height, "height");
+  if (width <= 0 || height <= 0) throw new GraphSnapshotError("width and height must be positive");
+
+  const seed = snapshot.seed === null ? null : expectNumber(snapshot.seed, "seed");
+  if (!Array.isArray(snapshot.nodes)) throw new GraphSnapshotError("nodes must be an array");
+
+  const ids = new Set<number>();
+  const nodes = snapshot.nodes.map((item: unknown, i): NodeSnapshot => {
+    const path = `nodes[${i}]`;
+    const n = expectObject(item, path);
+    const id = expectNumber(n.id, `${path}.id`);
+    if (!Number.isInteger(id) || id < 0) {
+      throw new GraphSnapshotError(`${path}.id must be a non-negative integer`);
+    }
+    if (ids.has(id)) throw new GraphSnapshotError(`${path}.id ${id} is used twice`);
+    ids.add(id);
+    if (typeof n.pinned !== "boolean") {
+      throw new GraphSnapshotError(`${path}.pinned must be a boolean`);
+    }
+    const radius = expectNumber(n.radius, `${path}.radius`);
+    if (radius <= 0) throw new GraphSnapshotError(`${path}.radius must be positive`);
+    const dataId = n.dataId === undefined || typeof n.dataId === "string"
+      ? n.dataId
+      : expectNumber(n.dataId, `${path}.dataId`);
+    return {
+      id,
+      x: expectNumber(n.x, `${path}.x`),
+      y: expectNumber(n.y, `${path}.y`),
+      vx: expectNumber(n.vx, `${path}.vx`),
+      vy: expectNumber(n.vy, `${path}.vy`),
+      radius,
+      color: expectColor(n.color, `${path}.color`, NODE_COLOR),
+      pinned: n.pinned,
+      ...(dataId !== undefined && { dataId }),
+    };
+  });
+
+  const config = parseConfig(snapshot.config);
+  return { version: SNAPSHOT_VERSION, width, height, seed, config, nodes };
+}
+
+/** Nodes of a snapshot, rescaled from its size to `width` × `height` */
+export function restoreNodes(snapshot: GraphSnapshot, width: number, height: number): Node[] {
+  const sx = width / snapshot.width;
+  const sy = height / snapshot.height;
+  return snapshot.nodes.map((n) => {
+    const x = n.x * sx;
+    const y = n.y * sy;
+    return {
+      id: n.id,
+      x,
+      y,
+      vx: toStepVelocity(n.vx),
+      vy: toStepVelocity(n.vy),
+      radius: n.radius,
+      color: n.color,
+      fx: n.pinned ? x : null,
+      fy: n.pinned ? y : null,
+      dataId: n.dataId,
+    };
+  });
+}
+
+/* config fields must have the type of their default; fields the snapshot does not know yet (it
+  was written before they were added) take their default, so new fields need no version bump */
+function parseConfig(value: unknown): GraphConfig {
+  const input = expectObject(value, "config");
+  const config = {} as Record<keyof GraphConfig, unknown>;
+  for (const key of Object.keys(DEFAULT_GRAPH_CONFIG) as (keyof GraphConfig)[]) {
+    const path = `config.${key}`;
+    const field = input[key];
+    const numeric =
+      NULLABLE_NUMBER_FIELDS.includes(key) || typeof DEFAULT_GRAPH_CONFIG[key] === "number";
+    if (field === undefined) {
+      config[key] = DEFAULT_GRAPH_CONFIG[key];
+    } else if (field === null && NULLABLE_CONFIG_FIELDS.includes(key)) {
+      config[key] = null;
+    } else if (key === "colorWeights") {
+      config[key] = parseColorWeights(field);
+    } else if (numeric) {
+      config[key] = expectInRange(expectNumber(field, path), CONFIG_RANGES[key], path);
+    } else if (COLOR_CONFIG_FIELDS.includes(key)) {
+      config[key] = expectColor(field, path);
+    } else if (typeof DEFAULT_GRAPH_CONFIG[key] === "boolean") {
+      if (typeof field !== "boolean") throw new GraphSnapshotError(`${path} must be a boolean`);
+      config[key] = field;
+    } else {
+      const choice = expectString(field, path);
+      const choices = CONFIG_CHOICES[key];
+      if (choices && !choices.includes(choice)) {
+        throw new GraphSnapshotError(`${path} must be one of ${choices.join(", ")}`);
+      }
+      config[key] = choice;
+    }
+  }
+  return config as GraphConfig;
+}
+
+function parseColorWeights(value: unknown): GraphConfig["colorWeights"] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new GraphSnapshotError("config.colorWeights must be a non-empty array");
+  }
+  return value.map((item: unknown, i) => {
+    const path = `config.colorWeights[${i}]`;
+    const cw = expectObject(item, path);
+    const weight = expectNumber(cw.weight, `${path}.weight`);
+    if (weight < 0) throw new GraphSnapshotError(`${path}.weight must be at least 0`);
+    return { color: expectColor(cw.color, `${path}.color`), weight };
+  });
+}
+
+function expectObject(value: unknown, path: string): Record<string, unknown> {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    throw new GraphSnapshotError(`${path} must be an object`);
+  }
+  return value as Record<string, unknown>;
+}
+
+function expectNumber(value: unknown, path: string): number {
+  if (typeof value !== "number" || !Number.isFinite(value)) {
+    throw new GraphSnapshotError(`${path} must be a finite number`);
+  }
+  return value;
+}
+
+function expectString(value: unknown, path: string): string {
+  if (typeof value !== "string") throw new GraphSnapshotError(`${path} must be a string`);
+  return value;
+}
+
+function expectColor(value: unknown, path: string, format = HEX_COLOR): string {
+  const color = expectString(value, path);
+  if (!format.test(color)) {
+    const expected = format === NODE_COLOR ? "#rgb or #rrggbb" : "#rrggbb";
+    throw new GraphSnapshotError(`${path} must be a ${expected} color`);
+  }
+  return color;
+}
+
+function expectInRange(
+  value: number,
+  range: { min?: number; max?: number } | undefined,
+  path: string
+): number {
+  if (range?.min != null && value < range.min) {
+    throw new GraphSnapshotError(`${path} must be at least ${range.min}`);
+  }
+  if (range?.max != null && value > range.max) {
+    throw new GraphSnapshotError(`${path} must be at most ${range.max}`);
+  }
+  return value;
+}
@@ -0,0 +1,147 @@
+type Point = { x?: number; y?: number };
+
+export type NearbyPair<T> = {
+  a: T;
+  b: T;
+  dist: number;
+  // vector from a to b; with wrapping this is the shortest way round, across the seam if needed
+  dx: number;
+  dy: number;
+};
+
+/**
+ * SpatialGrid
+ * - uniform grid that buckets points into cells at least `cellSize` wide, rebuilt once per tick
+ * - with the cell size at least the search distance, any two points closer than that distance are
+ *   in the same or in adjacent cells, so a query only has to look at 3 × 3 cells
+ * - with `wrap` the grid is toroidal: the first and last rows/columns are adjacent
+ * - buckets are stored with a counting sort in typed arrays that are reused between rebuilds, so
+ *   a rebuild allocates nothing once the arrays have grown to the node count
+ */
+export class SpatialGrid {
+  private cellWidth = 1;
+  private cellHeight = 1;
+  private cols = 1;
+  private rows = 1;
+  private wrap = false;
+  private cellStart = new Int32Array(2); // prefix sums: items of cell c are [cellStart[c], cellStart[c + 1])
+  private cellItems = new Int32Array(0); // point indices sorted by cell
+  private itemCell = new Int32Array(0); // cell of each point index
+  private colList = new Int32Array(3); // scratch: neighbouring columns / rows of a query
+  private rowList = new Int32Array(3);
+
+  rebuild(points: Point[], cellSize: number, width: number, height: number, wrap = false) {
+    cellSize = Math.max(1, cellSize);
+    // cells are stretched to divide the bounds exactly, which matters for wrapping across the seam
+    this.cols = Math.max(1, Math.floor(width / cellSize));
+    this.rows = Math.max(1, Math.floor(height / cellSize));
+    this.cellWidth = Math.max(cellSize, width / this.cols);
+    this.cellHeight = Math.max(cellSize, height / this.rows);
+    this.wrap = wrap;
+    const cellCount = this.cols * this.rows;
+
+    if (this.cellStart.length < cellCount + 1) this.cellStart = new Int32Array(cellCount + 1);
+    if (this.itemCell.length < points.length) {
+      this.itemCell = new Int32Array(points.length);
+      this.cellItems = new Int32Array(points.length);
+    }
+    const { cellStart, cellItems, itemCell } = this;
+    cellStart.fill(0, 0, cellCount + 1);
+
+    // count items per cell (shifted by one so the prefix sum below yields start offsets)
+    for (let i = 0; i < points.length; i++) {
+      const c = this.cellOf(points[i].x ?? 0, points[i].y ?? 0);
+      itemCell[i] = c;
+      cellStart[c + 1]++;
+    }
+    for (let c = 0; c < cellCount; c++) cellStart[c + 1] += cellStart[c];
+
+    // scatter, using a copy of the offsets as write cursors
+    const cursor = cellStart.slice(0, cellCount);
+    for (let i = 0; i < points.length; i++) {
+      cellItems[cursor[itemCell[i]]++] = i;
+    }
+  }
+
+  /** Calls `visit` with the index of every point in the 3 × 3 cells around (x, y), once each */
+  forEachNear(x: number, y: number, visit: (index: number) => void) {
+    const col = this.clamp(Math.floor(x / this.cellWidth), this.cols);
+    const row = this.clamp(Math.floor(y / this.cellHeight), this.rows);
+    const colCount = this.neighbours(col, this.cols, this.colList);
+    const rowCount = this.neighbours(row, this.rows, this.rowList);
+    const { cellStart, cellItems } = this;
+
+    for (let r = 0; r < rowCount; r++) {
+      for (let c = 0; c < colCount; c++) {
+        const cell = this.rowList[r] * this.cols + this.colList[c];
+        for (let k = cellStart[cell]; k < cellStart[cell + 1]; k++) visit(cellItems[k]);
+      }
+    }
+  }
+
+  // writes the distinct neighbours of `index` (itself included) into `out`, returns their count
+  private neighbours(index: number, size: number, out: Int32Array) {
+    if (this.wrap && size >= 3) {
+      out[0] = (index - 1 + size) % size;
+      out[1] = index;
+      out[2] = (index + 1) % size;
+      return 3;
+    }
+    let count = 0;
+    const from = this.wrap ? 0 : Math.max(0, index - 1);
+    const to = this.wrap ? size - 1 : Math.min(size - 1, index + 1);
+    for (let i = from; i <= to; i++) out[count++] = i;
+    return count;
+  }
+
+  private cellOf(x: number, y: number) {
+    return this.clamp(Math.floor(y / this.cellHeight), this.rows) * this.cols +
+      this.clamp(Math.floor(x / this.cellWidth), this.cols);
+  }
+
+  // points may sit slightly outside the bounds (e.g. the mouse node); keep them in edge cells
+  private clamp(index: number, size: number) {
+    return index < 0 ? 0 : index >= size ? size - 1 : index;
+  }
+}
+
+/**
+ * collectNearbyPairs
+ * - returns every pair of points closer than `maxDistance`, using a grid built with that cell size
+ * - `isActive` marks the points whose pairs matter; pairs where neither point is active are never
+ *   measured, which is what keeps large node counts cheap when only a region is visible
+ * - with `wrap` ({ width, height } of the torus) distances are measured the shortest way round
+ */
+export function collectNearbyPairs<T extends Point>(
+  grid: SpatialGrid,
+  points: T[],
+  maxDistance: number,
+  isActive: (point: T) => boolean,
+  wrap?: { width: number; height: number }
+): NearbyPair<T>[] {
+  const active = new Uint8Array(points.length);
+  for (let i = 0; i < points.length; i++) active[i] = isActive(points[i]) ? 1 : 0;
+
+  const maxDistance2 = maxDistance * maxDistance;
+  const pairs: NearbyPair<T>[] = [];
+  for (let i = 0; i < points.length; i++) {
+    if (!active[i]) continue;
+    const a = points[i];
+    const ax = a.x ?? 0;
+    const ay = a.y ?? 0;
+    grid.forEachNear(ax, ay, (j) => {
+      // active pairs are found from both ends, so keep only one of them
+      if (j === i || (active[j] && j < i)) return;
+      const b = points[j];
+      let dx = (b.x ?? 0) - ax;
+      let dy = (b.y ?? 0) - ay;
+      if (wrap) {
+        dx -= wrap.width * Math.round(dx / wrap.width);
+        dy -= wrap.height * Math.round(dy / wrap.height);
+      }
+      const d2 = dx * dx + dy * dy;
+      if (d2 <= maxDistance2) pairs.push({ a, b, dist: Math.sqrt(d2), dx, dy });
+    });
+  }
+  return pairs;
+}
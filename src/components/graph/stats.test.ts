@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { type GraphStats, STATS_INTERVAL_MS, STATS_WINDOW, StatsMeter } from './stats.ts';
+
+const counts = () => ({ nodeCount: 10, edgeCount: 20, tier: null });
+
+describe("StatsMeter", () => {
+  it("reports at most every STATS_INTERVAL_MS, averaging the timings since the last report", () => {
+    const reports: GraphStats[] = [];
+    const meter = new StatsMeter((stats) => reports.push(stats));
+
+    meter.record({ frameMs: 0, tickMs: 1, edgesMs: 1, drawMs: 1 }, 0, counts);
+    expect(reports).toHaveLength(1);
+    expect(reports[0]).toMatchObject({ fps: 0, frameTimes: [], nodeCount: 10 });
+
+    meter.record({ frameMs: 20, tickMs: 2, edgesMs: 4, drawMs: 6 }, 20, counts);
+    meter.record({ frameMs: 20, tickMs: 4, edgesMs: 2, drawMs: 0 }, STATS_INTERVAL_MS, counts);
+    expect(reports).toHaveLength(2);
+    expect(reports[1]).toMatchObject({ fps: 50, tickMs: 3, edgesMs: 3, drawMs: 3 });
+    expect(reports[1].frameTimes).toEqual([20, 20]);
+  });
+
+  it("keeps the last STATS_WINDOW frame times", () => {
+    let last: GraphStats | null = null;
+    const meter = new StatsMeter((stats) => (last = stats));
+    for (let i = 1; i <= STATS_WINDOW + 10; i++) {
+      meter.record({ frameMs: i, tickMs: 0, edgesMs: 0, drawMs: 0 }, i * STATS_INTERVAL_MS, counts);
+    }
+    expect(last!.frameTimes).toHaveLength(STATS_WINDOW);
+    expect(last!.frameTimes[0]).toBe(11);
+  });
+});
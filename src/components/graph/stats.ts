@@ -0,0 +1,77 @@
+import { type NodeCountTier } from './nodes.ts';
+
+/** Frames kept for the rolling frame-time chart */
+export const STATS_WINDOW = 120;
+
+/** How often stats are reported, ms (per-frame reports would flood React and the worker channel) */
+export const STATS_INTERVAL_MS = 250;
+
+/**
+ * Performance numbers of the frame loop. Timings are averaged over the frames since the previous
+ * report; `fps` and `frameTimes` cover the last STATS_WINDOW frames.
+ */
+export type GraphStats = {
+  fps: number;
+  tickMs: number; // simulation step (forces, integration, boundary)
+  edgesMs: number; // computeFrameModel: edge lookup and opacities
+  drawMs: number; // renderer
+  nodeCount: number; // regular nodes, interaction nodes excluded
+  edgeCount: number; // edges of the frame model, before faint ones are culled
+  tier: NodeCountTier | null; // getNodeCountForWidth tier, null in data mode
+  frameTimes: number[]; // ms between frames, oldest first
+};
+
+/** One frame, as measured by the engine */
+export type FrameSample = {
+  frameMs: number; // time since the previous frame
+  tickMs: number;
+  edgesMs: number;
+  drawMs: number;
+};
+
+/**
+ * StatsMeter
+ * - collects one FrameSample per frame and reports GraphStats every STATS_INTERVAL_MS
+ * - counts are read through a getter only when a report is due
+ */
+export class StatsMeter {
+  private listener: (stats: GraphStats) => void;
+  private frameTimes: number[] = [];
+  private sums = { tickMs: 0, edgesMs: 0, drawMs: 0 };
+  private samples = 0;
+  private lastReport: number | null = null;
+
+  constructor(listener: (stats: GraphStats) => void) {
+    this.listener = listener;
+  }
+
+  record(
+    sample: FrameSample,
+    now: number,
+    getCounts: () => Pick<GraphStats, "nodeCount" | "edgeCount" | "tier">
+  ) {
+    // the first frame after a pause has no previous frame to measure against
+    if (sample.frameMs > 0) {
+      this.frameTimes.push(sample.frameMs);
+      if (this.frameTimes.length > STATS_WINDOW) this.frameTimes.shift();
+    }
+    this.sums.tickMs += sample.tickMs;
+    this.sums.edgesMs += sample.edgesMs;
+    this.sums.drawMs += sample.drawMs;
+    this.samples++;
+
+    if (this.lastReport != null && now - this.lastReport < STATS_INTERVAL_MS) return;
+    this.lastReport = now;
+    const total = this.frameTimes.reduce((sum, ms) => sum + ms, 0);
+    this.listener({
+      fps: total > 0 ? (this.frameTimes.length * 1000) / total : 0,
+      tickMs: this.sums.tickMs / this.samples,
+      edgesMs: this.sums.edgesMs / this.samples,
+      drawMs: this.sums.drawMs / this.samples,
+      ...getCounts(),
+      frameTimes: [...this.frameTimes],
+    });
+    this.sums = { tickMs: 0, edgesMs: 0, drawMs: 0 };
+    this.samples = 0;
+  }
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { type FrameModel } from './frameModel.ts';
+import { DEFAULT_GRAPH_CONFIG } from './graphConfig.ts';
+import { type Node } from './nodes.ts';
+import { frameToSvg } from './svgRenderer.ts';
+
+const a: Node = { id: 0, x: 10, y: 20, radius: 2, color: "#112233" };
+const b: Node = { id: 1, x: 40, y: 60, radius: 3, color: "#445566" };
+
+const frame: FrameModel = {
+  width: 100,
+  height: 80,
+  edges: [
+    { a, b, dist: 50, opacity: 0.5, dx: 30, dy: 40, wrapped: false },
+    { a, b, dist: 50, opacity: 0, dx: 30, dy: 40, wrapped: false }, // invisible
+  ],
+  nodes: [
+    { node: a, opacity: 1, drawRadius: 2.5 },
+    { node: b, opacity: 0.001, drawRadius: 3 }, // too faint to draw
+  ],
+};
+
+const count = (svg: string, tag: string) => svg.split(`<${tag} `).length - 1;
+
+describe("frameToSvg", () => {
+  it("writes a standalone document with the background and the visible shapes", () => {
+    const svg = frameToSvg(frame, DEFAULT_GRAPH_CONFIG);
+
+    expect(svg).toMatch(/^<svg xmlns="http:\/\/www.w3.org\/2000\/svg" width="100" height="80"/);
+    const { backgroundColor } = DEFAULT_GRAPH_CONFIG;
+    expect(svg).toContain(`<rect width="100%" height="100%" fill="${backgroundColor}"/>`);
+    expect(count(svg, "line")).toBe(1);
+    expect(svg).toContain(`<line x1="10" y1="20" x2="40" y2="60" stroke-opacity="0.500"/>`);
+    expect(count(svg, "circle")).toBe(1);
+    expect(svg).toContain(`<circle cx="10" cy="20" r="2.5" fill="#112233" fill-opacity="1.000"/>`);
+  });
+
+  it("draws a wrapped edge as two lines leaving opposite sides of the seam", () => {
+    const wrapped: FrameModel = {
+      ...frame,
+      edges: [{ a, b, dist: 20, opacity: 1, dx: -20, dy: 0, wrapped: true }],
+      nodes: [],
+    };
+    expect(count(frameToSvg(wrapped, DEFAULT_GRAPH_CONFIG), "line")).toBe(2);
+  });
+
+  it("escapes attribute values", () => {
+    const svg = frameToSvg(frame, { ...DEFAULT_GRAPH_CONFIG, backgroundColor: `"<&` });
+    expect(svg).toContain(`fill="&quot;&lt;&amp;"`);
+  });
+});
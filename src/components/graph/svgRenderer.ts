@@ -0,0 +1,134 @@
+import { FALLBACK_NODE_COLOR, MIN_EDGE_OPACITY, MIN_NODE_OPACITY } from './drawFrame.ts';
+import { type FrameModel } from './frameModel.ts';
+import { type GraphConfig } from './graphConfig.ts';
+import { type GraphRenderer } from './renderer.ts';
+
+const SVG_NS = "http://www.w3.org/2000/svg";
+
+type SvgLine = { x1: number; y1: number; x2: number; y2: number; opacity: number };
+type SvgCircle = { cx: number; cy: number; r: number; fill: string; opacity: number };
+
+/**
+ * svgShapes
+ * - the visible lines and circles of a frame, culled and faded exactly like drawFrame
+ * - a wrapped edge becomes two lines, one leaving each side of the seam
+ */
+function svgShapes(frame: FrameModel): { lines: SvgLine[]; circles: SvgCircle[] } {
+  const lines: SvgLine[] = [];
+  for (const e of frame.edges) {
+    if (e.opacity <= MIN_EDGE_OPACITY) continue;
+    const { a, b, dx, dy, opacity } = e;
+    lines.push({ x1: a.x!, y1: a.y!, x2: a.x! + dx, y2: a.y! + dy, opacity });
+    if (e.wrapped) lines.push({ x1: b.x!, y1: b.y!, x2: b.x! - dx, y2: b.y! - dy, opacity });
+  }
+
+  const circles: SvgCircle[] = [];
+  for (const { node: n, opacity, drawRadius } of frame.nodes) {
+    if (opacity <= MIN_NODE_OPACITY) continue;
+    circles.push({ cx: n.x!, cy: n.y!, r: drawRadius, fill: n.color ?? FALLBACK_NODE_COLOR, opacity });
+  }
+  return { lines, circles };
+}
+
+// coordinates with two decimals keep exported files small without visible loss
+const coord = (value: number) => String(Math.round(value * 100) / 100);
+const alpha = (value: number) => value.toFixed(3);
+const attr = (value: string) => value.replace(/&/g, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;");
+
+/**
+ * frameToSvg
+ * - serializes a frame as a standalone SVG document, background included, for design tools and
+ *   print
+ * - pure: works headless and inside a worker
+ */
+export function frameToSvg(frame: FrameModel, cfg: GraphConfig): string {
+  const { width, height } = frame;
+  const { lines, circles } = svgShapes(frame);
+
+  const out = [
+    `<svg xmlns="${SVG_NS}" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `<rect width="100%" height="100%" fill="${attr(cfg.backgroundColor)}"/>`,
+    `<g stroke="${attr(cfg.edgeColor)}" stroke-width="1" stroke-linecap="round">`,
+  ];
+  for (const l of lines) {
+    out.push(
+      `<line x1="${coord(l.x1)}" y1="${coord(l.y1)}" x2="${coord(l.x2)}" y2="${coord(l.y2)}" ` +
+      `stroke-opacity="${alpha(l.opacity)}"/>`
+    );
+  }
+  out.push("</g>", "<g>");
+  for (const c of circles) {
+    out.push(
+      `<circle cx="${coord(c.cx)}" cy="${coord(c.cy)}" r="${coord(c.r)}" fill="${attr(c.fill)}" ` +
+      `fill-opacity="${alpha(c.opacity)}"/>`
+    );
+  }
+  out.push("</g>", "</svg>");
+  return out.join("\n");
+}
+
+/**
+ * SvgRenderer
+ * - draws into an <svg> element on the page with one <line> per visible edge and one <circle> per
+ *   visible node
+ * - elements are reused between frames; only their attributes change
+ * - the background is left to the page, as with the canvas renderer
+ */
+export class SvgRenderer implements GraphRenderer {
+  private svg: SVGSVGElement;
+  private edgeGroup: SVGGElement;
+  private nodeGroup: SVGGElement;
+
+  constructor(svg: SVGSVGElement) {
+    this.svg = svg;
+    this.edgeGroup = document.createElementNS(SVG_NS, "g");
+    this.edgeGroup.setAttribute("stroke-width", "1");
+    this.edgeGroup.setAttribute("stroke-linecap", "round");
+    this.nodeGroup = document.createElementNS(SVG_NS, "g");
+    svg.append(this.edgeGroup, this.nodeGroup);
+  }
+
+  // vector output has no drawing buffer: only the coordinate system follows the size
+  resize(width: number, height: number) {
+    this.svg.setAttribute("viewBox", `0 0 ${width} ${height}`);
+  }
+
+  render(frame: FrameModel, cfg: GraphConfig) {
+    const { lines, circles } = svgShapes(frame);
+
+    this.edgeGroup.setAttribute("stroke", cfg.edgeColor);
+    syncChildren(this.edgeGroup, "line", lines.length, (el, i) => {
+      const l = lines[i];
+      el.setAttribute("x1", coord(l.x1));
+      el.setAttribute("y1", coord(l.y1));
+      el.setAttribute("x2", coord(l.x2));
+      el.setAttribute("y2", coord(l.y2));
+      el.setAttribute("stroke-opacity", alpha(l.opacity));
+    });
+    syncChildren(this.nodeGroup, "circle", circles.length, (el, i) => {
+      const c = circles[i];
+      el.setAttribute("cx", coord(c.cx));
+      el.setAttribute("cy", coord(c.cy));
+      el.setAttribute("r", coord(c.r));
+      el.setAttribute("fill", c.fill);
+      el.setAttribute("fill-opacity", alpha(c.opacity));
+    });
+  }
+
+  destroy() {
+    this.edgeGroup.remove();
+    this.nodeGroup.remove();
+  }
+}
+
+// grow or shrink `group` to `count` children of `tag`, then update each of them
+function syncChildren(
+  group: SVGGElement,
+  tag: "line" | "circle",
+  count: number,
+  update: (element: Element, index: number) => void
+) {
+  while (group.childElementCount < count) group.appendChild(document.createElementNS(SVG_NS, tag));
+  while (group.childElementCount > count) group.lastElementChild!.remove();
+  for (let i = 0; i < count; i++) update(group.children[i], i);
+}
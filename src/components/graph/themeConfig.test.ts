@@ -0,0 +1,33 @@
+import { createTheme } from '@mui/material/styles';
+import { describe, expect, it } from 'vitest';
+import { createPalette } from '../../theme/base/palette.ts';
+import { authorPalette } from '../../theme/config/paletteConfig.ts';
+import { themeGraphConfig } from './themeConfig.ts';
+
+// the color schemes of the site theme (see getTheme), without its fonts
+const theme = createTheme({
+  colorSchemes: {
+    light: { palette: createPalette("light") },
+    dark: { palette: createPalette("dark") },
+  },
+  cssVariables: { colorSchemeSelector: "class" },
+});
+
+describe("themeGraphConfig", () => {
+  it("maps the graph palette of the active scheme onto config fields", () => {
+    const { graph } = authorPalette;
+    for (const scheme of ["light", "dark"] as const) {
+      expect(themeGraphConfig(theme, scheme)).toEqual({
+        backgroundColor: graph.background[scheme],
+        edgeColor: graph.edge[scheme],
+        colorWeights: graph.nodes[scheme],
+        cursorColor: graph.cursor[scheme],
+      });
+    }
+  });
+
+  it("leaves the colors to the defaults while the scheme is unknown", () => {
+    expect(themeGraphConfig(theme, undefined)).toBeUndefined();
+    expect(themeGraphConfig(createTheme(), "dark")).toBeUndefined();
+  });
+});
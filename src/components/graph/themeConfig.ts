@@ -0,0 +1,23 @@
+import { type SupportedColorScheme, type Theme } from '@mui/material/styles';
+import { type GraphConfig } from './graphConfig.ts';
+
+/**
+ * themeGraphConfig
+ * - the colors of `palette.graph` in the active color scheme of the theme, as config fields
+ * - undefined while the scheme is unknown (server render, first client render) or when the theme
+ *   has no graph palette; Graph then uses DEFAULT_GRAPH_CONFIG
+ */
+export function themeGraphConfig(
+  theme: Theme,
+  colorScheme: SupportedColorScheme | undefined
+): Partial<GraphConfig> | undefined {
+  // the theme keeps the default scheme in `palette` when it uses CSS variables
+  const graph = colorScheme ? theme.colorSchemes?.[colorScheme]?.palette.graph : undefined;
+  if (!graph) return undefined;
+  return {
+    backgroundColor: graph.background,
+    edgeColor: graph.edge,
+    colorWeights: graph.nodes,
+    cursorColor: graph.cursor,
+  };
+}
@@ -0,0 +1,76 @@
+import { type Simulation, type SimulationNodeDatum } from "d3-force";
+
+/** Reference rate: node velocities (vx, vy) are stored in px per reference step of 1/60 s */
+export const REFERENCE_FPS = 60;
+
+/** Longest gap integrated in one frame (ms), e.g. after a throttled or hidden tab resumes */
+export const MAX_FRAME_DELTA_MS = 100;
+
+/** Convert a speed in px/second into the per-step velocity the simulation stores */
+export function toStepVelocity(pxPerSecond: number): number {
+  return pxPerSecond / REFERENCE_FPS;
+}
+
+// scratch buffers reused between frames
+let savedX = new Float64Array(0);
+let savedY = new Float64Array(0);
+let savedVx = new Float64Array(0);
+let savedVy = new Float64Array(0);
+
+/**
+ * stepSimulation
+ * - advances a stopped d3 force simulation by `dtMs` of real elapsed time
+ * - d3 integrates exactly one fixed step per `tick()`, so on its own the motion speed depends on
+ *   the display refresh rate. Here `tick()` still runs the forces once, then the step is rescaled
+ *   to the real frame length: force impulses, velocity decay, alpha decay and the position update
+ *   are all applied as `dtMs` worth of reference steps
+ * - gaps longer than MAX_FRAME_DELTA_MS are capped so nodes never jump after a tab switch
+ */
+export function stepSimulation<N extends SimulationNodeDatum>(
+  simulation: Simulation<N, undefined>,
+  dtMs: number
+) {
+  const steps = (Math.min(dtMs, MAX_FRAME_DELTA_MS) / 1000) * REFERENCE_FPS;
+  if (steps <= 0) return;
+
+  const nodes = simulation.nodes();
+  if (savedX.length < nodes.length) {
+    savedX = new Float64Array(nodes.length);
+    savedY = new Float64Array(nodes.length);
+    savedVx = new Float64Array(nodes.length);
+    savedVy = new Float64Array(nodes.length);
+  }
+  for (let i = 0; i < nodes.length; i++) {
+    const n = nodes[i];
+    savedX[i] = n.x ?? 0;
+    savedY[i] = n.y ?? 0;
+    savedVx[i] = n.vx ?? 0;
+    savedVy[i] = n.vy ?? 0;
+  }
+
+  const alpha = simulation.alpha();
+  const alphaTarget = simulation.alphaTarget();
+
+  // one d3 step: forces add their impulse to vx/vy, then v *= keep and x += v
+  simulation.tick();
+
+  const keep = 1 - simulation.velocityDecay();
+  const keepOverSteps = Math.pow(keep, steps);
+  for (let i = 0; i < nodes.length; i++) {
+    const n = nodes[i];
+    // pinned axes were already snapped to fx/fy by d3
+    if (n.fx == null) {
+      // recover the force impulse of the single step and apply it `steps` times
+      const impulse = keep > 0 ? (n.vx ?? 0) / keep - savedVx[i] : 0;
+      n.vx = (savedVx[i] + impulse * steps) * keepOverSteps;
+      n.x = savedX[i] + n.vx * steps;
+    }
+    if (n.fy == null) {
+      const impulse = keep > 0 ? (n.vy ?? 0) / keep - savedVy[i] : 0;
+      n.vy = (savedVy[i] + impulse * steps) * keepOverSteps;
+      n.y = savedY[i] + n.vy * steps;
+    }
+  }
+
+  simulation.alpha(alphaTarget + (alpha - alphaTarget) * Math.pow(1 - simulation.alphaDecay(), steps));
+}
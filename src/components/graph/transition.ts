@@ -0,0 +1,90 @@
+import { type GraphConfig } from './graphConfig.ts';
+import { mixColors } from './color.ts';
+import { type Node } from './nodes.ts';
+
+/** Duration of the cross-fade when Graph's preset or color scheme changes, ms */
+export const LOOK_TRANSITION_MS = 800;
+
+// config fields blended as colors; other strings (choices) switch at the start
+const COLOR_FIELDS = ["backgroundColor", "edgeColor"] as const;
+// numbers that are counts or identities rather than amounts: never interpolated
+const DISCRETE_FIELDS: readonly (keyof GraphConfig)[] = [
+  "seed",
+  "nodeCount",
+  "minNodes",
+  "maxNodes",
+];
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+/** What a transition animates per node: its color and radius */
+export type NodeLook = { color: string; radius: number };
+
+// smoothstep: eases in and out
+const ease = (t: number) => t * t * (3 - 2 * t);
+
+/** The color and radius of every node, taken before a config change re-rolls them */
+export function captureLooks(nodes: readonly Node[]): Map<Node, NodeLook> {
+  const looks = new Map<Node, NodeLook>();
+  for (const n of nodes) looks.set(n, { color: n.color ?? "", radius: n.radius ?? 1 });
+  return looks;
+}
+
+/**
+ * ConfigTransition
+ * - cross-fades from one config to another over `durationMs`, e.g. when the preset changes
+ * - numeric fields (not counts or the seed) and the background and edge colors are interpolated,
+ *   everything else (choices, flags, color weights) takes the new value at once
+ * - nodes blend from the look they had (captureLooks) to the one the new config gave them
+ */
+export class ConfigTransition {
+  private from: GraphConfig;
+  private to: GraphConfig;
+  private looks: Map<Node, { from: NodeLook; to: NodeLook }> = new Map();
+  private elapsed = 0;
+  private duration: number;
+
+  constructor(from: GraphConfig, to: GraphConfig, before: Map<Node, NodeLook>, durationMs: number) {
+    this.from = from;
+    this.to = to;
+    this.duration = durationMs;
+    for (const [node, look] of before) {
+      const target = { color: node.color ?? "", radius: node.radius ?? 1 };
+      if (target.color !== look.color || target.radius !== look.radius) {
+        this.looks.set(node, { from: look, to: target });
+      }
+    }
+  }
+
+  get done() {
+    return this.elapsed >= this.duration;
+  }
+
+  /** Advance by `dtMs`: updates the node looks and returns the config of this moment */
+  advance(dtMs: number): GraphConfig {
+    this.elapsed = Math.min(this.duration, this.elapsed + dtMs);
+    const t = this.duration > 0 ? ease(this.elapsed / this.duration) : 1;
+
+    for (const [node, { from, to }] of this.looks) {
+      node.radius = from.radius + (to.radius - from.radius) * t;
+      node.color = t >= 1 || !HEX_COLOR.test(from.color) || !HEX_COLOR.test(to.color)
+        ? to.color
+        : mixColors(from.color, to.color, t);
+    }
+    if (t >= 1) return this.to;
+
+    const config = { ...this.to };
+    for (const key of Object.keys(config) as (keyof GraphConfig)[]) {
+      const a = this.from[key];
+      const b = this.to[key];
+      if (typeof a === "number" && typeof b === "number" && !DISCRETE_FIELDS.includes(key)) {
+        (config as Record<keyof GraphConfig, unknown>)[key] = a + (b - a) * t;
+      }
+    }
+    for (const key of COLOR_FIELDS) {
+      if (HEX_COLOR.test(this.from[key]) && HEX_COLOR.test(this.to[key])) {
+        config[key] = mixColors(this.from[key], this.to[key], t);
+      }
+    }
+    return config;
+  }
+}
@@ -0,0 +1,61 @@
+import { type EnvironmentState, type KeyInput, type PointerInput } from './domInput.ts';
+import { type CaptureOptions } from './capture.ts';
+import { type GraphConfig } from './graphConfig.ts';
+import { type GraphData } from './graphData.ts';
+import { type GraphSnapshot } from './snapshot.ts';
+import { type GraphStats } from './stats.ts';
+import { type NodeCounts } from './quality.ts';
+import { type NodeCountTier } from './nodes.ts';
+import { type PickedNode } from './picking.ts';
+import { type ReducedMotionBehavior } from './GraphEngine.ts';
+
+/** Messages from the page (GraphWorkerClient) to graph.worker.ts, one per GraphEngine call */
+export type GraphWorkerRequest =
+  | {
+    type: "init";
+    canvas?: OffscreenCanvas; // transferred on the first mount only, the worker keeps it
+    width: number;
+    height: number;
+    devicePixelRatio: number;
+    config?: Partial<GraphConfig>;
+    reducedMotion: ReducedMotionBehavior;
+    data: GraphData | null;
+    stats: boolean; // whether the page listens to GraphStats
+    nodeCounts: NodeCounts; // read from the page's localStorage
+  }
+  | { type: "resize"; width: number; height: number }
+  | { type: "config"; config?: Partial<GraphConfig>; transitionMs: number }
+  | { type: "data"; data: GraphData | null } // validated by the page already
+  | { type: "reducedMotion"; behavior: ReducedMotionBehavior }
+  | { type: "environment"; state: Partial<EnvironmentState> }
+  | { type: "pointerDown" | "pointerMove" | "pointerUp"; input: PointerInput }
+  | { type: "pointerLeave" }
+  | { type: "keyDown"; input: KeyInput }
+  | { type: "start" }
+  | { type: "stop" }
+  | { type: "stats"; enabled: boolean }
+  | { type: "destroy" } // the worker stays alive (with its canvas) until it is terminated
+  | { type: "loadSnapshot"; snapshot: GraphSnapshot } // validated by the page already
+  | { type: "getSnapshot"; requestId: number }
+  | { type: "toSvg"; requestId: number }
+  | { type: "captureFrame"; requestId: number; options: CaptureOptions }
+  // step by exactly dtMs and answer with the new frame at width × height px (recordings)
+  | { type: "recordFrame"; requestId: number; width: number; height: number; dtMs: number };
+
+/**
+ * Messages from the worker back to the page. The seed is pushed whenever it may have changed so
+ * that `getSeed()` can stay synchronous on the page; replies carry the `requestId` they answer.
+ */
+export type GraphWorkerResponse =
+  | { type: "seed"; seed: number | null }
+  | { type: "stats"; stats: GraphStats } // pushed a few times per second while enabled
+  // adaptive quality settled, for the page to store (workers have no localStorage)
+  | { type: "nodeCountSettled"; tier: NodeCountTier; nodeCount: number }
+  // picking events of the engine (onNodeHover, onNodeClick)
+  | { type: "nodeHover"; node: PickedNode | null }
+  | { type: "nodeClick"; node: PickedNode | null }
+  | { type: "snapshot"; requestId: number; snapshot: GraphSnapshot }
+  | { type: "svg"; requestId: number; svg: string }
+  | { type: "image"; requestId: number; blob: Blob }
+  | { type: "bitmap"; requestId: number; bitmap: ImageBitmap } // transferred
+  | { type: "error"; requestId: number; message: string }; // any request that failed
@@ -4,10 +4,16 @@ import customBreakpoints from './breakpoints.ts';
 import customTypography from './typography.ts';
 import { resolvedFonts as fonts } from '../config/fontsConfig.ts';
 
-export const getTheme = (mode: 'light' | 'dark') => {
+/* One theme for both modes: each color scheme becomes a set of CSS variables switched by a class
+  on <html>, so the mode can change (or be restored before first paint) without a new theme. */
+export const getTheme = () => {
   const theme = createTheme({
     breakpoints: { values: customBreakpoints },
-    palette: createPalette(mode),
+    colorSchemes: {
+      light: { palette: createPalette('light') },
+      dark: { palette: createPalette('dark') },
+    },
+    cssVariables: { colorSchemeSelector: 'class' },
     // other slices
   });
   theme.typography = {
@@ -3,6 +3,14 @@ import { PaletteOptions } from '@mui/material/styles';
 
 export type Mode = 'light' | 'dark';
 
+// Colors of the Graph animation, `theme.palette.graph`
+export type GraphPalette = {
+  background: string;
+  edge: string;
+  nodes: { color: string; weight: number }[];
+  cursor: string;
+};
+
 export const createPalette = (
   mode: Mode,
 ): PaletteOptions => {
@@ -29,6 +37,12 @@ export const createPalette = (
       primary: authorPalette['textPrimary'][mode],
       secondary: authorPalette['textSecondary'][mode],
     },
-    divider: authorPalette['divider'][mode]
+    divider: authorPalette['divider'][mode],
+    graph: {
+      background: authorPalette['graph']['background'][mode],
+      edge: authorPalette['graph']['edge'][mode],
+      nodes: authorPalette['graph']['nodes'][mode],
+      cursor: authorPalette['graph']['cursor'][mode],
+    },
   };
 };
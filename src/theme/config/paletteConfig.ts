@@ -3,6 +3,11 @@ type ManualPaletteType = {
   dark: string
 }
 
+type ManualColorWeightsType = {
+  light: { color: string, weight: number }[],
+  dark: { color: string, weight: number }[]
+}
+
 export interface ManualPaletteConfig {
   primaryMain: ManualPaletteType;
   secondaryMain: ManualPaletteType;
@@ -13,6 +18,13 @@ export interface ManualPaletteConfig {
   errorMain: ManualPaletteType;
   infoMain: ManualPaletteType;
   divider: ManualPaletteType;
+  // Graph animation colors (#rrggbb); node weights should sum to 1
+  graph: {
+    background: ManualPaletteType;
+    edge: ManualPaletteType;
+    nodes: ManualColorWeightsType;
+    cursor: ManualPaletteType;
+  };
 }
 //Palette where author choose colors
 export const authorPalette: ManualPaletteConfig = {
@@ -52,4 +64,30 @@ export const authorPalette: ManualPaletteConfig = {
     light: 'rgba(0, 0, 0, 0.12)',
     dark: 'rgba(255, 255, 255, 0.12)',
   },
+  graph: {
+    background: {
+      light: '#eef6f7',
+      dark: '#0a1a1f',
+    },
+    edge: {
+      light: '#1d7f96',
+      dark: '#4cc9e5',
+    },
+    nodes: {
+      light: [
+        { color: '#1f9e44', weight: 0.75 },
+        { color: '#c2189f', weight: 0.18 },
+        { color: '#0a1a1f', weight: 0.07 },
+      ],
+      dark: [
+        { color: '#3cd962', weight: 0.75 },
+        { color: '#ff00ff', weight: 0.18 },
+        { color: '#e9fbfd', weight: 0.07 },
+      ],
+    },
+    cursor: {
+      light: '#1f9e44',
+      dark: '#3cd962',
+    },
+  },
 };
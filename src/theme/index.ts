@@ -1,6 +1,6 @@
 // Barrel file for theme exports
 // Theme Factory
-export { createPalette } from './base/palette.ts'; // Palette resolver
+export { createPalette, type GraphPalette } from './base/palette.ts'; // Palette resolver
 export { getTheme } from './base/base.ts'; // Theme factory
 // Config
 export { authorPalette, type ManualPaletteConfig } from './config/paletteConfig.ts'; // Manual override layer
@@ -1,6 +1,7 @@
 // Tell TS we’re extending MUI’s breakpoint keys
 import { type CSSProperties } from '@mui/material/styles/createTypography';
 import '@mui/material/styles';
+import { type GraphPalette } from './base/palette.ts';
 
 declare module '@mui/material/styles' {
   // ✅ Extend Breakpoints
@@ -13,6 +14,18 @@ declare module '@mui/material/styles' {
     xxl: true;   // your custom
     xxxl: true;  // your custom
   }
+  // ✅ Type the theme as built with CSS variables (`theme.vars`, `theme.colorSchemes`)
+  interface CssThemeVariables {
+    enabled: true;
+  }
+  // ✅ Extend the palette with the Graph colors
+  interface Palette {
+    graph: GraphPalette;
+  }
+
+  interface PaletteOptions {
+    graph?: GraphPalette;
+  }
   // ✅ Extend Typography variants inside the theme
   interface TypographyVariants {
     cardDescription: CSSProperties;